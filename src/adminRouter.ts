@@ -0,0 +1,93 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { requireAdmin } from "./authMiddleware.js";
+import { parsePagination } from "./pagination.js";
+import { userService } from "./services/userService.js";
+
+const adminRouter = express.Router();
+
+adminRouter.use(requireAdmin);
+
+// GET /admin/users?limit=&offset= - Users with their rule and notification counts
+adminRouter.get("/users", async (req: Request, res: Response) => {
+  const { limit, offset } = parsePagination(req.query);
+  const { data, error } = await userService.listUsers(limit, offset);
+
+  if (error || !data) {
+    return res.status(500).json({
+      error: "Failed to fetch users",
+      details: error?.message || error,
+    });
+  }
+
+  return res.status(200).json(data);
+});
+
+// POST /admin/users { name } - Create a user. The response holds their login code,
+// which is not stored and cannot be shown again.
+adminRouter.post("/users", async (req: Request, res: Response) => {
+  const { name } = req.body ?? {};
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "name is required" });
+  }
+
+  const { data, error } = await userService.createUser(name.trim());
+  if (error || !data) {
+    return res.status(500).json({
+      error: "Failed to create user",
+      details: error?.message || error,
+    });
+  }
+
+  return res.status(201).json(data);
+});
+
+// POST /admin/users/:userId/login-code - Issue a new login code, replacing the old one
+adminRouter.post(
+  "/users/:userId/login-code",
+  async (req: Request, res: Response) => {
+    const { data, error } = await userService.rotateLoginCode(
+      req.params.userId
+    );
+
+    if (error) {
+      return res.status(500).json({
+        error: "Failed to rotate login code",
+        details: error.message || error,
+      });
+    }
+    if (!data) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    return res.status(200).json(data);
+  }
+);
+
+// POST /admin/users/:userId/disable - Sign the user out, block sign-in and pause
+// their schedules. POST /admin/users/:userId/enable undoes it.
+for (const action of ["disable", "enable"] as const) {
+  adminRouter.post(
+    `/users/:userId/${action}`,
+    async (req: Request, res: Response) => {
+      const { data, error } = await userService.setDisabled(
+        req.params.userId,
+        action === "disable"
+      );
+
+      if (error) {
+        return res.status(500).json({
+          error: `Failed to ${action} user`,
+          details: error.message || error,
+        });
+      }
+      if (!data) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      return res.status(200).json(data);
+    }
+  );
+}
+
+export { adminRouter };
@@ -0,0 +1,72 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { authService } from "./services/authService.js";
+
+// EventSource cannot set headers, so event streams may pass ?access_token= instead
+function tokenFromQuery(req: Request): string | undefined {
+  const accept = req.headers.accept ?? "";
+  if (req.method !== "GET" || !accept.includes("text/event-stream")) {
+    return undefined;
+  }
+  const token = req.query.access_token;
+  return typeof token === "string" && token ? token : undefined;
+}
+
+/**
+ * Require a valid session access token ("Authorization: Bearer <token>") and
+ * populate req.user with the authenticated user.
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ")
+    ? header.slice("Bearer ".length).trim()
+    : tokenFromQuery(req);
+
+  if (!token) {
+    return res.status(401).json({ error: "Missing bearer token" });
+  }
+
+  try {
+    const user = await authService.authenticate(token);
+    if (!user) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+    req.user = user;
+    return next();
+  } catch (err) {
+    logger.error("Auth middleware error", { error: err });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+/**
+ * Require the admin API key ("Authorization: Bearer <ADMIN_API_KEY>"). The admin
+ * API is unavailable when ADMIN_API_KEY is not set.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = config.adminApiKey;
+  if (!adminKey) {
+    return res.status(503).json({ error: "Admin API is not configured" });
+  }
+
+  const header = req.headers.authorization;
+  const key = header?.startsWith("Bearer ")
+    ? header.slice("Bearer ".length).trim()
+    : undefined;
+  if (!key) {
+    return res.status(401).json({ error: "Missing bearer token" });
+  }
+
+  // Compare digests so neither the length nor the content leaks through timing
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!timingSafeEqual(digest(key), digest(adminKey))) {
+    return res.status(401).json({ error: "Invalid admin key" });
+  }
+  return next();
+}
@@ -1,68 +1,112 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
-import { createClient } from "@supabase/supabase-js";
-import dotenv from "dotenv";
-
-dotenv.config();
+import { requireAuth } from "./authMiddleware.js";
+import { logger } from "./logger.js";
+import { authService } from "./services/authService.js";
 
 const router = Router();
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!supabaseUrl || !supabaseServiceRoleKey) {
-  throw new Error(
-    "Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
-  );
-}
-
-const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-
 /**
  * POST /auth/verify
- * Verify a login code and return the user data
+ * Verify a login code and return the user data along with a new session.
+ * Repeated failures from one IP or against one code lock it out (429).
  */
 router.post("/verify", async (req: Request, res: Response) => {
   const { loginCode } = req.body;
 
-  if (!loginCode) {
+  if (!loginCode || typeof loginCode !== "string") {
     return res.status(400).json({ error: "Login code is required" });
   }
 
   try {
-    // Normalize the code: trim and convert to lowercase
-    const normalizedCode = loginCode.trim().toLowerCase();
-
-    console.log(`🔐 Attempting login with code: ${normalizedCode}`);
+    const { data, error } = await authService.verifyLoginCode(loginCode, {
+      ip: req.ip || req.socket.remoteAddress || "unknown",
+      userAgent: req.headers["user-agent"],
+    });
+    if (error || !data) {
+      logger.error("Login error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
 
-    // Use ilike for case-insensitive comparison directly in database
-    const { data, error } = await supabase
-      .from("berry_users")
-      .select("id, name, login_code, created_at")
-      .ilike("login_code", normalizedCode)
-      .single();
+    if (data.retryAfterSeconds > 0) {
+      logger.warn("Login locked out", {
+        retryAfterSeconds: data.retryAfterSeconds,
+      });
+      res.setHeader("Retry-After", String(data.retryAfterSeconds));
+      return res
+        .status(429)
+        .json({ error: "Too many failed attempts, try again later" });
+    }
 
-    if (error || !data) {
-      console.log(`❌ Login failed: Invalid code`);
+    if (!data.user) {
+      logger.warn("Login failed: invalid code");
       return res.status(404).json({ error: "Invalid login code" });
     }
 
-    console.log(`✅ Login successful for user: ${data.name} (${data.id})`);
+    if (data.user.disabled_at) {
+      logger.warn("Login failed: user is disabled", { userId: data.user.id });
+      return res.status(403).json({ error: "This account has been disabled" });
+    }
 
-    // Return complete user object
-    return res.status(200).json({
-      user: {
-        id: data.id,
-        name: data.name,
-        login_code: data.login_code,
-        created_at: data.created_at,
-      },
-    });
+    const { data: session, error: sessionError } =
+      await authService.issueSession(data.user.id);
+    if (sessionError || !session) {
+      logger.error("Failed to create session", { error: sessionError });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    logger.info("Login succeeded", { userId: data.user.id });
+
+    // Return the user and session tokens; the code itself is never stored or echoed
+    return res.status(200).json({ user: data.user, session });
+  } catch (err) {
+    logger.error("Auth error", { error: err });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new access token (the refresh token is rotated)
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(400).json({ error: "Refresh token is required" });
+  }
+
+  try {
+    const { data: session, error } = await authService.refreshSession(
+      refreshToken
+    );
+    if (error) {
+      logger.error("Refresh error", { error });
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!session) {
+      return res
+        .status(401)
+        .json({ error: "Invalid or expired refresh token" });
+    }
+    return res.status(200).json({ session });
   } catch (err) {
-    console.error("❌ Auth error:", err);
+    logger.error("Refresh error", { error: err });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/logout
+ * Revoke the current session
+ */
+router.post("/logout", requireAuth, async (req: Request, res: Response) => {
+  const { success, error } = await authService.logout(req.user!.sessionId);
+  if (!success) {
+    logger.error("Logout error", { error });
     return res.status(500).json({ error: "Internal server error" });
   }
+  return res.status(200).json({ message: "Logged out" });
 });
 
 export { router as authRouter };
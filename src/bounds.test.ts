@@ -0,0 +1,51 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { db } from "./db/repositories.js";
+import { ruleService } from "./services/ruleService.js";
+import { createTestRule, itemsResult, queueAnswers } from "./testRules.js";
+
+async function execute(ruleId: string) {
+  return ruleService.handleExecute({ body: { ruleId, trigger: "manual" } });
+}
+
+describe("rule bounds", () => {
+  it("counts only successful runs toward max_runs", async () => {
+    const rule = await createTestRule({ max_runs: 2 });
+    queueAnswers(
+      new Error("Model unavailable"),
+      itemsResult([]),
+      new Error("Model unavailable"),
+      itemsResult([])
+    );
+
+    assert.equal((await execute(rule.id!)).status, 500);
+    assert.equal((await execute(rule.id!)).status, 200);
+    assert.equal((await execute(rule.id!)).status, 500);
+
+    const { data: running } = await db.rules.getRuleById(rule.id!);
+    assert.equal(running!.run_count, 1);
+    assert.equal(running!.status, "active");
+
+    assert.equal((await execute(rule.id!)).status, 200);
+    const { data: completed } = await db.rules.getRuleById(rule.id!);
+    assert.equal(completed!.run_count, 2);
+    assert.equal(completed!.status, "completed");
+    assert.equal(completed!.completion_reason, "max_runs");
+  });
+
+  it("completes a stop-on-first-hit rule on its first notification", async () => {
+    const rule = await createTestRule({ stop_on_first_hit: true });
+    queueAnswers(
+      itemsResult([]),
+      itemsResult([{ title: "12 Oak St", url: "https://example.com/12-oak" }])
+    );
+
+    await execute(rule.id!);
+    assert.equal((await db.rules.getRuleById(rule.id!)).data!.status, "active");
+
+    await execute(rule.id!);
+    const { data: completed } = await db.rules.getRuleById(rule.id!);
+    assert.equal(completed!.completion_reason, "first_hit");
+  });
+});
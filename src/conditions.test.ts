@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  itemMatchesConditions,
+  normalizeConditions,
+  validateConditions,
+} from "./conditions.js";
+import type { ItemSchema } from "./items.js";
+
+const listing: ItemSchema = {
+  name: "listing",
+  fields: [{ name: "price", type: "number" }],
+};
+
+const threshold = (value: unknown) => ({
+  type: "threshold",
+  field: "price",
+  operator: "lt",
+  value,
+});
+
+describe("threshold values", () => {
+  it("reads loosely written numbers", () => {
+    for (const [value, expected] of [
+      ["$3,000,000", 3e6],
+      ["300 USD", 300],
+      ["-1.5", -1.5],
+      [250, 250],
+    ] as const) {
+      const conditions = normalizeConditions([threshold(value)]);
+      assert.deepEqual(conditions, [{ ...threshold(expected) }], String(value));
+      assert.equal(validateConditions(conditions, listing), null);
+    }
+  });
+
+  it("rejects values with no number in them", () => {
+    for (const value of ["", "$", "abc", null, "1-2"]) {
+      const conditions = normalizeConditions([threshold(value)]);
+      assert.equal(
+        validateConditions(conditions, listing),
+        "condition 1: value must be a number",
+        String(value)
+      );
+    }
+  });
+
+  it("does not read a field without a number as 0", () => {
+    const item = (price: string) => ({
+      title: "Listing",
+      url: "",
+      fields: { price },
+    });
+    const [under300] = normalizeConditions([threshold("300")]);
+    assert.ok(itemMatchesConditions(item("$250"), [under300], null));
+    assert.ok(!itemMatchesConditions(item("$"), [under300], null));
+    assert.ok(!itemMatchesConditions(item("call for price"), [under300], null));
+  });
+});
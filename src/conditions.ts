@@ -0,0 +1,293 @@
+import {
+  type ItemFieldValue,
+  type ItemSchema,
+  parseLooseNumber,
+  type ResultItem,
+} from "./items.js";
+
+/**
+ * Alert conditions evaluated server-side against a rule's execution output, so
+ * "only when the price drops below $300" does not depend on the model's judgment.
+ * A rule's conditions must all hold (AND). For item results they are checked per
+ * item; for free-form answers against the answer text.
+ */
+
+export type ThresholdOperator = "lt" | "lte" | "gt" | "gte" | "eq";
+
+export const THRESHOLD_OPERATORS: ThresholdOperator[] = [
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "eq",
+];
+
+export type ConditionType =
+  | "threshold"
+  | "contains"
+  | "not_contains"
+  | "changed";
+
+export const CONDITION_TYPES: ConditionType[] = [
+  "threshold",
+  "contains",
+  "not_contains",
+  "changed",
+];
+
+export type AlertCondition =
+  // A numeric item field compared with a fixed value, e.g. price lt 300
+  | {
+      type: "threshold";
+      field: string;
+      operator: ThresholdOperator;
+      value: number;
+    }
+  // Case-insensitive text match on one field (title, url or a schema field), or
+  // on the whole item / answer when field is omitted
+  | { type: "contains" | "not_contains"; field?: string; value: string }
+  // The field (or the whole item / answer) differs from what the previous run saw
+  | { type: "changed"; field?: string };
+
+const MAX_CONDITIONS = 10;
+const BUILT_IN_FIELDS = ["title", "url"];
+
+const OPERATOR_SYMBOLS: Record<ThresholdOperator, string> = {
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+  eq: "=",
+};
+
+/**
+ * Validate a list of conditions from the model or an API caller. When the rule has
+ * an item schema, fields must be title, url or one of its fields, and thresholds
+ * must target number fields. Returns an error message, or null when valid.
+ */
+export function validateConditions(
+  value: unknown,
+  itemSchema: ItemSchema | null
+): string | null {
+  if (!Array.isArray(value)) return "must be an array";
+  if (value.length > MAX_CONDITIONS) {
+    return `at most ${MAX_CONDITIONS} conditions are allowed`;
+  }
+
+  for (const [index, condition] of value.entries()) {
+    const where = `condition ${index + 1}`;
+    if (!condition || !CONDITION_TYPES.includes(condition.type)) {
+      return `${where}: type must be one of ${CONDITION_TYPES.join(", ")}`;
+    }
+    if (condition.field !== undefined && typeof condition.field !== "string") {
+      return `${where}: field must be a string`;
+    }
+
+    const schemaField = itemSchema?.fields.find(
+      (field) => field.name === condition.field
+    );
+    if (
+      itemSchema &&
+      condition.field &&
+      !schemaField &&
+      !BUILT_IN_FIELDS.includes(condition.field)
+    ) {
+      return `${where}: unknown field ${condition.field}`;
+    }
+
+    switch (condition.type as ConditionType) {
+      case "threshold":
+        if (!condition.field) return `${where}: field is required`;
+        if (!THRESHOLD_OPERATORS.includes(condition.operator)) {
+          return `${where}: operator must be one of ${THRESHOLD_OPERATORS.join(
+            ", "
+          )}`;
+        }
+        if (typeof condition.value !== "number" || !isFinite(condition.value)) {
+          return `${where}: value must be a number`;
+        }
+        if (itemSchema && schemaField?.type !== "number") {
+          return `${where}: ${condition.field} is not a number field`;
+        }
+        break;
+      case "contains":
+      case "not_contains":
+        if (typeof condition.value !== "string" || !condition.value.trim()) {
+          return `${where}: value must be a non-empty string`;
+        }
+        break;
+      case "changed":
+        break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Turn loosely-shaped conditions from the rule generation model (every property
+ * present, values as strings) into AlertConditions, dropping empty ones. A threshold
+ * without a number ("", "$") keeps a NaN value so validateConditions rejects it.
+ */
+export function normalizeConditions(raw: any[]): AlertCondition[] {
+  return raw.flatMap((condition): AlertCondition[] => {
+    const field = String(condition?.field ?? "").trim() || undefined;
+    switch (condition?.type) {
+      case "threshold":
+        return [
+          {
+            type: "threshold",
+            field: field ?? "",
+            operator: condition.operator,
+            value: parseLooseNumber(condition.value),
+          },
+        ];
+      case "contains":
+      case "not_contains":
+        return [
+          {
+            type: condition.type,
+            ...(field ? { field } : {}),
+            value: String(condition.value ?? "").trim(),
+          },
+        ];
+      case "changed":
+        return [{ type: "changed", ...(field ? { field } : {}) }];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Short readable form of a condition, e.g. "price < 300" or "title contains sofa".
+ */
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case "threshold":
+      return `${condition.field} ${OPERATOR_SYMBOLS[condition.operator]} ${
+        condition.value
+      }`;
+    case "contains":
+    case "not_contains":
+      return `${condition.field ?? "result"} ${
+        condition.type === "contains" ? "contains" : "does not contain"
+      } "${condition.value}"`;
+    case "changed":
+      return `${condition.field ?? "result"} changed since last run`;
+  }
+}
+
+export function hasChangedCondition(conditions: AlertCondition[]): boolean {
+  return conditions.some((condition) => condition.type === "changed");
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function compare(
+  actual: number,
+  operator: ThresholdOperator,
+  expected: number
+): boolean {
+  switch (operator) {
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "eq":
+      return actual === expected;
+  }
+}
+
+function itemValue(item: ResultItem, field: string): ItemFieldValue {
+  if (field === "title") return item.title;
+  if (field === "url") return item.url;
+  return item.fields[field] ?? null;
+}
+
+function itemText(item: ResultItem): string {
+  return [item.title, item.url, ...Object.values(item.fields)]
+    .filter((value) => value !== null)
+    .join(" ");
+}
+
+function toNumber(value: ItemFieldValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const number = parseLooseNumber(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Whether an item satisfies every condition. previousFields are the item's fields
+ * as observed by the previous run, or null if it was not seen before (a new item
+ * counts as changed).
+ */
+export function itemMatchesConditions(
+  item: ResultItem,
+  conditions: AlertCondition[],
+  previousFields: Record<string, ItemFieldValue> | null
+): boolean {
+  return conditions.every((condition) => {
+    switch (condition.type) {
+      case "threshold": {
+        const actual = toNumber(itemValue(item, condition.field));
+        return (
+          actual !== null &&
+          compare(actual, condition.operator, condition.value)
+        );
+      }
+      case "contains":
+      case "not_contains": {
+        const text = condition.field
+          ? String(itemValue(item, condition.field) ?? "")
+          : itemText(item);
+        const found = normalizeText(text).includes(
+          normalizeText(condition.value)
+        );
+        return condition.type === "contains" ? found : !found;
+      }
+      case "changed":
+        if (!previousFields) return true;
+        return condition.field && !BUILT_IN_FIELDS.includes(condition.field)
+          ? (previousFields[condition.field] ?? null) !==
+              (item.fields[condition.field] ?? null)
+          : JSON.stringify(previousFields) !== JSON.stringify(item.fields);
+    }
+  });
+}
+
+/**
+ * Whether a free-form answer satisfies every condition. Thresholds need typed item
+ * fields, so they never hold for free-form answers; "changed" compares with the
+ * previous run's answer (null if there was none).
+ */
+export function contentMatchesConditions(
+  content: string,
+  conditions: AlertCondition[],
+  previousContent: string | null
+): boolean {
+  return conditions.every((condition) => {
+    switch (condition.type) {
+      case "threshold":
+        return false;
+      case "contains":
+      case "not_contains": {
+        const found = normalizeText(content).includes(
+          normalizeText(condition.value)
+        );
+        return condition.type === "contains" ? found : !found;
+      }
+      case "changed":
+        return (
+          previousContent === null ||
+          normalizeText(previousContent) !== normalizeText(content)
+        );
+    }
+  });
+}
@@ -0,0 +1,220 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Typed view of the environment, read once when first imported. Every other
+ * module takes its settings from here rather than from process.env. Missing or
+ * malformed variables are collected in configIssues instead of throwing on the
+ * spot, so the server can report them all at once at startup (assertValidConfig)
+ * and standalone scripts that only need a few of them still run.
+ */
+
+export type StorageBackend = "supabase" | "memory";
+export type SchedulerBackend = "qstash" | "local";
+export type FixtureMode = "live" | "record" | "replay";
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface Config {
+  port: number | undefined;
+  nodeEnv: string;
+  logLevel: LogLevel;
+  storageBackend: StorageBackend;
+  schedulerBackend: SchedulerBackend;
+  supabase: {
+    url: string | undefined;
+    serviceRoleKey: string | undefined;
+  };
+  qstash: {
+    // API base URL; the client's default (QStash's global endpoint) when unset
+    url: string | undefined;
+    token: string | undefined;
+    currentSigningKey: string | undefined;
+    nextSigningKey: string | undefined;
+    // Public URL of this server, where QStash delivers /rule/execute
+    destinationBaseUrl: string | undefined;
+  };
+  localSchedulerFile: string;
+  openaiApiKey: string | undefined;
+  perplexityApiKey: string | undefined;
+  authTokenSecret: string | undefined;
+  loginCodeSecret: string | undefined;
+  adminApiKey: string | undefined;
+  smtp: {
+    host: string | undefined;
+    port: number;
+    user: string | undefined;
+    pass: string | undefined;
+    from: string | undefined;
+  };
+  vapid: {
+    publicKey: string | undefined;
+    privateKey: string | undefined;
+    subject: string;
+  };
+  // Deployment-wide usage limits; null means unlimited
+  usageDefaults: {
+    maxRules: number | null;
+    minIntervalMinutes: number | null;
+    monthlySpendUsd: number | null;
+  };
+  llmFixtures: FixtureMode;
+  llmFixturesDir: string;
+}
+
+export interface ConfigIssue {
+  variable: string;
+  problem: string;
+}
+
+const issues: ConfigIssue[] = [];
+
+function optional(name: string): string | undefined {
+  return process.env[name]?.trim() || undefined;
+}
+
+function required(name: string, reason?: string): string | undefined {
+  const value = optional(name);
+  if (!value) {
+    issues.push({
+      variable: name,
+      problem: reason ? `missing (required ${reason})` : "missing",
+    });
+  }
+  return value;
+}
+
+function oneOf<T extends string>(
+  name: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const value = optional(name)?.toLowerCase();
+  if (!value) return fallback;
+  if (allowed.includes(value as T)) return value as T;
+  issues.push({
+    variable: name,
+    problem: `unsupported value ${value}; use one of ${allowed.join(", ")}`,
+  });
+  return fallback;
+}
+
+function positiveNumber(name: string): number | null {
+  const raw = optional(name);
+  if (!raw) return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    issues.push({ variable: name, problem: "must be a positive number" });
+    return null;
+  }
+  return value;
+}
+
+function loadConfig(): Config {
+  const storageBackend = oneOf<StorageBackend>(
+    "STORAGE_BACKEND",
+    ["supabase", "memory"],
+    "supabase"
+  );
+  const schedulerBackend = oneOf<SchedulerBackend>(
+    "SCHEDULER_BACKEND",
+    ["qstash", "local"],
+    "qstash"
+  );
+  const forSupabase = "for STORAGE_BACKEND=supabase";
+  const forQStash = "for SCHEDULER_BACKEND=qstash";
+
+  return {
+    port: positiveNumber("PORT") ?? undefined,
+    nodeEnv: optional("NODE_ENV") || "development",
+    logLevel: oneOf<LogLevel>(
+      "LOG_LEVEL",
+      ["debug", "info", "warn", "error"],
+      "info"
+    ),
+    storageBackend,
+    schedulerBackend,
+    supabase:
+      storageBackend === "supabase"
+        ? {
+            url: required("SUPABASE_URL", forSupabase),
+            serviceRoleKey: required("SUPABASE_SERVICE_ROLE_KEY", forSupabase),
+          }
+        : {
+            url: optional("SUPABASE_URL"),
+            serviceRoleKey: optional("SUPABASE_SERVICE_ROLE_KEY"),
+          },
+    qstash:
+      schedulerBackend === "qstash"
+        ? {
+            url: optional("QSTASH_URL"),
+            token: required("QSTASH_TOKEN", forQStash),
+            currentSigningKey: required(
+              "QSTASH_CURRENT_SIGNING_KEY",
+              forQStash
+            ),
+            nextSigningKey: required("QSTASH_NEXT_SIGNING_KEY", forQStash),
+            destinationBaseUrl: required(
+              "QSTASH_DESTINATION_BASE_URL",
+              forQStash
+            ),
+          }
+        : {
+            url: optional("QSTASH_URL"),
+            token: optional("QSTASH_TOKEN"),
+            currentSigningKey: optional("QSTASH_CURRENT_SIGNING_KEY"),
+            nextSigningKey: optional("QSTASH_NEXT_SIGNING_KEY"),
+            destinationBaseUrl: optional("QSTASH_DESTINATION_BASE_URL"),
+          },
+    localSchedulerFile:
+      optional("LOCAL_SCHEDULER_FILE") || "data/local-schedules.json",
+    openaiApiKey: required("OPENAI_API_KEY"),
+    // Only rules that run in perplexity mode need it; readiness reports it
+    perplexityApiKey: optional("PERPLEXITY_API_KEY"),
+    authTokenSecret: required("AUTH_TOKEN_SECRET"),
+    loginCodeSecret: optional("LOGIN_CODE_SECRET"),
+    adminApiKey: optional("ADMIN_API_KEY"),
+    smtp: {
+      host: optional("SMTP_HOST"),
+      port: positiveNumber("SMTP_PORT") ?? 587,
+      user: optional("SMTP_USER"),
+      pass: optional("SMTP_PASS"),
+      from: optional("SMTP_FROM"),
+    },
+    vapid: {
+      publicKey: optional("VAPID_PUBLIC_KEY"),
+      privateKey: optional("VAPID_PRIVATE_KEY"),
+      subject: optional("VAPID_SUBJECT") || "mailto:notifications@berry.app",
+    },
+    usageDefaults: {
+      maxRules: positiveNumber("USAGE_DEFAULT_MAX_RULES"),
+      minIntervalMinutes: positiveNumber("USAGE_DEFAULT_MIN_INTERVAL_MINUTES"),
+      monthlySpendUsd: positiveNumber("USAGE_DEFAULT_MONTHLY_SPEND_USD"),
+    },
+    llmFixtures: oneOf<FixtureMode>(
+      "LLM_FIXTURES",
+      ["live", "record", "replay"],
+      "live"
+    ),
+    llmFixturesDir: optional("LLM_FIXTURES_DIR") || "fixtures",
+  };
+}
+
+export const config: Config = loadConfig();
+
+// Problems found while loading config, one per variable
+export const configIssues: readonly ConfigIssue[] = issues;
+
+/**
+ * Throw one error listing every missing or invalid variable. Called by the server
+ * at startup so a misconfigured deploy fails immediately rather than on the first
+ * request that needs the variable.
+ */
+export function assertValidConfig() {
+  if (!configIssues.length) return;
+  throw new Error(
+    `Invalid configuration:\n${configIssues
+      .map(({ variable, problem }) => `  - ${variable}: ${problem}`)
+      .join("\n")}`
+  );
+}
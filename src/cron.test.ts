@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  describeCron,
+  matchesCron,
+  minCronIntervalMinutes,
+  validateCron,
+  withCronTimeZone,
+} from "./cron.js";
+
+// 2024-03-01 is a Friday
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe("validateCron", () => {
+  it("accepts standard expressions", () => {
+    for (const expression of [
+      "* * * * *",
+      "*/15 9-17 * * 1-5",
+      "0 8 1,15 * *",
+      "5/10 * * JAN,jul SUN",
+      "0 0 * * 7",
+      "  30 6 * * *  ",
+    ]) {
+      assert.equal(validateCron(expression), null, expression);
+    }
+  });
+
+  it("rejects malformed fields", () => {
+    assert.match(validateCron("* * * *")!, /must have 5 fields/);
+    assert.match(validateCron("60 * * * *")!, /Invalid minute field/);
+    assert.match(validateCron("* 5-2 * * *")!, /Invalid hour field/);
+    assert.match(validateCron("*/0 * * * *")!, /Invalid step/);
+    assert.match(validateCron("* * 0 * *")!, /Invalid day of month field/);
+    assert.match(validateCron("* * * FOO *")!, /Invalid month field/);
+    assert.match(validateCron("1/2/3 * * * *")!, /Invalid minute field/);
+  });
+
+  it("rejects expressions that can never fire", () => {
+    assert.match(validateCron("0 0 31 2 *")!, /never fires/);
+    assert.match(validateCron("0 0 30,31 2 *")!, /never fires/);
+    assert.equal(validateCron("0 0 29 2 *"), null);
+    assert.equal(validateCron("0 0 31 1-2 *"), null);
+    // Either day field may match, so the Mondays of February still fire
+    assert.equal(validateCron("0 0 31 2 1"), null);
+  });
+});
+
+describe("matchesCron", () => {
+  it("matches each field", () => {
+    assert.ok(matchesCron("30 8 1 3 *", at("2024-03-01T08:30:00")));
+    assert.ok(!matchesCron("30 8 1 3 *", at("2024-03-01T08:31:00")));
+    assert.ok(!matchesCron("30 8 1 3 *", at("2024-04-01T08:30:00")));
+    assert.ok(matchesCron("*/15 * * * *", at("2024-03-01T10:45:00")));
+    assert.ok(!matchesCron("*/15 * * * *", at("2024-03-01T10:50:00")));
+  });
+
+  it("treats 7 as Sunday", () => {
+    assert.ok(matchesCron("0 0 * * 7", at("2024-03-03T00:00:00")));
+    assert.ok(matchesCron("0 0 * * 0", at("2024-03-03T00:00:00")));
+  });
+
+  it("evaluates the expression in the given timezone", () => {
+    // 16:00 UTC is 8:00 AM in Los Angeles (PST) on 2024-03-01
+    const date = at("2024-03-01T16:00:00");
+    assert.ok(matchesCron("0 8 * * *", date, "America/Los_Angeles"));
+    assert.ok(!matchesCron("0 8 * * *", date));
+  });
+
+  it("fires on either day field when both are restricted", () => {
+    // The 15th (a Friday) or any Monday
+    assert.ok(matchesCron("0 0 15 * 1", at("2024-03-15T00:00:00")));
+    assert.ok(matchesCron("0 0 15 * 1", at("2024-03-04T00:00:00")));
+    assert.ok(!matchesCron("0 0 15 * 1", at("2024-03-05T00:00:00")));
+  });
+
+  it("requires both day fields when one starts with *", () => {
+    // Odd days of the month that are also Mondays
+    assert.ok(matchesCron("0 0 */2 * 1", at("2024-03-11T00:00:00")));
+    assert.ok(!matchesCron("0 0 */2 * 1", at("2024-03-04T00:00:00")));
+    assert.ok(!matchesCron("0 0 */2 * 1", at("2024-03-13T00:00:00")));
+    // The 1st when it falls on a Sunday, Tuesday, Thursday or Saturday
+    assert.ok(matchesCron("0 0 1 * */2", at("2024-06-01T00:00:00")));
+    assert.ok(!matchesCron("0 0 1 * */2", at("2024-03-01T00:00:00")));
+  });
+});
+
+describe("describeCron", () => {
+  it("describes intervals without a timezone", () => {
+    assert.equal(describeCron("* * * * *"), "Every minute");
+    assert.equal(
+      describeCron("*/15 * * * *", "America/New_York"),
+      "Every 15 minutes"
+    );
+    assert.equal(describeCron("0 * * * *", "America/New_York"), "Every hour");
+    assert.equal(
+      describeCron("0 */2 * * *", "America/Los_Angeles"),
+      "Every 2 hours"
+    );
+    assert.equal(
+      describeCron("30 */6 * * *", "America/Los_Angeles"),
+      "Every 6 hours at :30"
+    );
+  });
+
+  it("describes clock times with the timezone", () => {
+    assert.equal(describeCron("0 8 * * *"), "Daily at 8:00 AM UTC");
+    assert.equal(
+      describeCron("0 8 * * 1-5", "America/Los_Angeles"),
+      "Weekdays at 8:00 AM PT"
+    );
+    assert.equal(
+      describeCron("30 9,17 * * 0,6", "UTC"),
+      "Weekends at 9:30 AM and 5:30 PM UTC"
+    );
+    assert.equal(
+      describeCron("0 12 1 * *"),
+      "Monthly on the 1st at 12:00 PM UTC"
+    );
+  });
+
+  it("describes both day semantics", () => {
+    assert.equal(
+      describeCron("0 8 15 * 1"),
+      "On the 15th or on Mondays at 8:00 AM UTC"
+    );
+    assert.equal(
+      describeCron("0 8 */10 * 1"),
+      "Mondays falling on the 1st, 11th, 21st and 31st at 8:00 AM UTC"
+    );
+  });
+
+  it("falls back to the expression when it cannot be parsed", () => {
+    assert.equal(describeCron("not a cron"), "not a cron");
+  });
+});
+
+describe("withCronTimeZone", () => {
+  it("adds a CRON_TZ prefix outside UTC", () => {
+    assert.equal(withCronTimeZone(" 0 8 * * * ", "UTC"), "0 8 * * *");
+    assert.equal(
+      withCronTimeZone("0 8 * * *", "Europe/Paris"),
+      "CRON_TZ=Europe/Paris 0 8 * * *"
+    );
+  });
+});
+
+describe("minCronIntervalMinutes", () => {
+  it("measures gaps within a day", () => {
+    assert.equal(minCronIntervalMinutes("* * * * *"), 1);
+    assert.equal(minCronIntervalMinutes("*/15 * * * *"), 15);
+    assert.equal(minCronIntervalMinutes("0,50 * * * *"), 10);
+    assert.equal(minCronIntervalMinutes("0 9,17 * * *"), 8 * 60);
+  });
+
+  it("wraps from the last firing of a day to the first of the next", () => {
+    assert.equal(minCronIntervalMinutes("0 8 * * *"), 24 * 60);
+    assert.equal(minCronIntervalMinutes("0 0,23 * * *"), 60);
+  });
+
+  it("counts a day when either day field may match", () => {
+    assert.equal(minCronIntervalMinutes("0 8 1 * 1"), 24 * 60);
+  });
+
+  it("spaces days when both day fields must match", () => {
+    assert.equal(minCronIntervalMinutes("0 8 * * 1"), 7 * 24 * 60);
+    assert.equal(minCronIntervalMinutes("0 8 * * 1,3"), 2 * 24 * 60);
+    assert.equal(minCronIntervalMinutes("0 8 1 * *"), 28 * 24 * 60);
+    assert.equal(minCronIntervalMinutes("0 8 */10 * 1"), 7 * 24 * 60);
+  });
+});
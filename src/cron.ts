@@ -0,0 +1,534 @@
+/**
+ * Cron helpers shared by rule scheduling: validation of standard 5-field cron
+ * expressions and IANA timezones, and rendering schedules as readable English.
+ */
+
+export type Cadence = "per_minute" | "hourly" | "daily" | "weekly";
+
+export const CADENCES: Cadence[] = ["per_minute", "hourly", "daily", "weekly"];
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Map one of the legacy fixed cadences to its cron expression.
+ */
+export function cadenceToCron(cadence: Cadence): string {
+  switch (cadence) {
+    case "per_minute":
+      return "* * * * *";
+    case "hourly":
+      return "0 * * * *";
+    case "daily":
+      return "0 0 * * *";
+    case "weekly":
+      return "0 0 * * 0";
+  }
+}
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+interface ParsedField {
+  raw: string;
+  // The field is exactly "*": every value
+  wildcard: boolean;
+  // The field starts with "*" (e.g. "*/2"); for the day fields, cron then requires
+  // both to match instead of either
+  star: boolean;
+  values: number[];
+}
+
+// Longest each month can be, so a day of month is only impossible if it never occurs
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function parseValue(
+  token: string,
+  field: (typeof FIELDS)[number]
+): number | null {
+  const named = field.names?.indexOf(token.toUpperCase()) ?? -1;
+  if (named >= 0) {
+    // Months are 1-based, days of week are 0-based
+    return field.name === "month" ? named + 1 : named;
+  }
+  if (!/^\d+$/.test(token)) return null;
+  const value = Number(token);
+  return value >= field.min && value <= field.max ? value : null;
+}
+
+function parseField(raw: string, index: number): ParsedField {
+  const field = FIELDS[index];
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart, ...extra] = part.split("/");
+    if (extra.length || !rangePart) {
+      throw new Error(`Invalid ${field.name} field: ${raw}`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${field.name} field: ${raw}`);
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (rangePart === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+    } else {
+      start = parseValue(rangePart, field);
+      // "5/15" means starting at 5, every 15 until the end of the range
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (start === null || end === null || start > end) {
+      throw new Error(`Invalid ${field.name} field: ${raw}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      // Sunday may be written as 0 or 7
+      values.add(field.name === "day of week" && v === 7 ? 0 : v);
+    }
+  }
+
+  return {
+    raw,
+    wildcard: raw === "*",
+    star: raw.startsWith("*"),
+    values: [...values].sort((a, b) => a - b),
+  };
+}
+
+function parseCron(expression: string): ParsedField[] {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`
+    );
+  }
+  return parts.map((part, index) => parseField(part, index));
+}
+
+/**
+ * Standard (Vixie) cron semantics: a day matches when either day field matches if
+ * both are restricted, and when both match if either starts with "*".
+ */
+function eitherDayMatches(dom: ParsedField, dow: ParsedField): boolean {
+  return !dom.star && !dow.star;
+}
+
+/**
+ * Whether some date satisfies the day and month fields, e.g. not "0 0 31 2 *".
+ * Every weekday occurs in every month, so only the day of month can rule a month out.
+ */
+function canFire([, , dom, month, dow]: ParsedField[]): boolean {
+  if (eitherDayMatches(dom, dow)) return true;
+  return month.values.some((m) =>
+    dom.values.some((d) => d <= MAX_DAYS_IN_MONTH[m - 1])
+  );
+}
+
+/**
+ * Validate a standard 5-field cron expression.
+ * Returns an error message, or null when the expression is valid.
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    const fields = parseCron(expression);
+    if (!canFire(fields)) {
+      return `Cron expression never fires: month ${fields[3].raw} has no day ${fields[2].raw}`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime.
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short, generic label for a timezone, e.g. "PT" for America/Los_Angeles
+ * (instead of the DST-specific "PDT"/"PST").
+ */
+function timeZoneLabel(timezone: string): string {
+  if (timezone === "UTC" || timezone === "Etc/UTC") return "UTC";
+  try {
+    const name = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      timeZoneName: "short",
+    })
+      .formatToParts(new Date())
+      .find((part) => part.type === "timeZoneName")?.value;
+    if (!name) return timezone;
+    const match = name.match(/^([A-Z]{1,2})[SD]T$/);
+    return match ? `${match[1]}T` : name;
+  } catch {
+    return timezone;
+  }
+}
+
+function formatTime(hour: number, minute: number): string {
+  const suffix = hour < 12 ? "AM" : "PM";
+  const h12 = hour % 12 === 0 ? 12 : hour % 12;
+  return `${h12}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
+
+function joinList(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${
+    items[items.length - 1]
+  }`;
+}
+
+function ordinal(n: number): string {
+  const rem100 = n % 100;
+  if (rem100 >= 11 && rem100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+/** Step size if the values are an evenly spaced sequence starting at min, else null */
+function stepOf(values: number[], min: number, max: number): number | null {
+  if (values.length < 2 || values[0] !== min) return null;
+  const step = values[1] - values[0];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] - values[i - 1] !== step) return null;
+  }
+  return values[values.length - 1] + step > max ? step : null;
+}
+
+function every(step: number, unit: string): string {
+  return step === 1 ? `Every ${unit}` : `Every ${step} ${unit}s`;
+}
+
+function isContiguous(values: number[]): boolean {
+  return values.every((v, i) => i === 0 || v === values[i - 1] + 1);
+}
+
+const WEEKDAY_LABELS = [
+  "Sundays",
+  "Mondays",
+  "Tuesdays",
+  "Wednesdays",
+  "Thursdays",
+  "Fridays",
+  "Saturdays",
+];
+const MONTH_LABELS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Describe the time-of-day part. `clock` is true when the phrase names specific
+ * clock times ("at 8:00 AM") rather than a repeating interval ("Every 5 minutes").
+ */
+function describeTime(
+  minute: ParsedField,
+  hour: ParsedField
+): { text: string; clock: boolean } {
+  const minutes = minute.values;
+  const hours = hour.values;
+  const minuteStep = stepOf(minutes, 0, 59);
+  const hourStep = stepOf(hours, 0, 23);
+  const hourRange =
+    !hour.wildcard && isContiguous(hours)
+      ? ` from ${formatTime(hours[0], 0)} to ${formatTime(
+          hours[hours.length - 1],
+          59
+        )}`
+      : "";
+
+  if (minute.wildcard) {
+    if (hour.wildcard) return { text: "Every minute", clock: false };
+    if (hourRange) return { text: `Every minute${hourRange}`, clock: false };
+  }
+
+  if (minuteStep && (hour.wildcard || hourRange)) {
+    return {
+      text: `${every(minuteStep, "minute")}${hourRange}`,
+      clock: false,
+    };
+  }
+
+  if (minutes.length === 1) {
+    const m = minutes[0];
+    const past = m === 0 ? "" : ` at :${String(m).padStart(2, "0")}`;
+    if (hour.wildcard) return { text: `Every hour${past}`, clock: false };
+    if (hourStep) {
+      return { text: `${every(hourStep, "hour")}${past}`, clock: false };
+    }
+    if (hours.length <= 4) {
+      return {
+        text: `at ${joinList(hours.map((h) => formatTime(h, m)))}`,
+        clock: true,
+      };
+    }
+    if (hourRange) {
+      return {
+        text: `Every hour${past} from ${formatTime(
+          hours[0],
+          m
+        )} to ${formatTime(hours[hours.length - 1], m)}`,
+        clock: false,
+      };
+    }
+  }
+
+  if (!hour.wildcard && minutes.length * hours.length <= 4) {
+    const times = hours.flatMap((h) => minutes.map((m) => formatTime(h, m)));
+    return { text: `at ${joinList(times)}`, clock: true };
+  }
+
+  return {
+    text: `At minute ${minute.raw} past hour ${hour.raw}`,
+    clock: false,
+  };
+}
+
+/**
+ * Describe the day part, in a leading form ("Weekdays") used before clock times
+ * and a trailing form ("on weekdays") used after intervals.
+ */
+function describeDays(
+  dom: ParsedField,
+  month: ParsedField,
+  dow: ParsedField
+): { lead: string; trail: string } | null {
+  const monthSuffix = month.wildcard
+    ? ""
+    : ` in ${joinList(month.values.map((m) => MONTH_LABELS[m - 1]))}`;
+
+  let lead: string;
+  let trail: string;
+
+  const days = dow.values;
+  const weekdayPhrase = (() => {
+    if (days.length === 5 && days.join() === "1,2,3,4,5") return "weekdays";
+    if (days.length === 2 && days.join() === "0,6") return "weekends";
+    return joinList(days.map((d) => WEEKDAY_LABELS[d]));
+  })();
+  const domPhrase = `the ${joinList(dom.values.map(ordinal))}`;
+
+  if (dom.wildcard && dow.wildcard) {
+    if (!monthSuffix) return null;
+    lead = `Daily${monthSuffix}`;
+    trail = monthSuffix.trim();
+    return { lead, trail };
+  }
+
+  if (dom.wildcard) {
+    lead = weekdayPhrase.charAt(0).toUpperCase() + weekdayPhrase.slice(1);
+    trail = `on ${weekdayPhrase}`;
+  } else if (dow.wildcard) {
+    lead = monthSuffix ? `On ${domPhrase}` : `Monthly on ${domPhrase}`;
+    trail = `on ${domPhrase}${monthSuffix ? "" : " of the month"}`;
+  } else if (eitherDayMatches(dom, dow)) {
+    lead = `On ${domPhrase} or on ${weekdayPhrase}`;
+    trail = `on ${domPhrase} or on ${weekdayPhrase}`;
+  } else {
+    // A stepped "*" field: both day fields must match
+    const capitalized =
+      weekdayPhrase.charAt(0).toUpperCase() + weekdayPhrase.slice(1);
+    lead = `${capitalized} falling on ${domPhrase}`;
+    trail = `on ${weekdayPhrase} falling on ${domPhrase}`;
+  }
+
+  return { lead: lead + monthSuffix, trail: trail + monthSuffix };
+}
+
+/**
+ * Render a cron expression as readable English, e.g. "0 8 * * 1-5" in
+ * America/Los_Angeles becomes "Weekdays at 8:00 AM PT".
+ * Falls back to the raw expression only if it cannot be parsed.
+ */
+export function describeCron(expression: string, timezone?: string): string {
+  let fields: ParsedField[];
+  try {
+    fields = parseCron(expression);
+  } catch {
+    return expression;
+  }
+  const [minute, hour, dom, month, dow] = fields;
+
+  const time = describeTime(minute, hour);
+  const days = describeDays(dom, month, dow);
+
+  let text: string;
+  if (time.clock) {
+    text = `${days ? days.lead : "Daily"} ${time.text}`;
+  } else {
+    text = days ? `${time.text} ${days.trail}` : time.text;
+  }
+
+  // The timezone only matters once specific hours or days are involved; an
+  // hour field like "*/2" reads the same in any zone
+  const tzRelevant = !hour.star || Boolean(days);
+  if (tzRelevant) {
+    text += ` ${timeZoneLabel(timezone || DEFAULT_TIMEZONE)}`;
+  }
+  return text;
+}
+
+/**
+ * Prefix a cron with CRON_TZ=<zone> (the form QStash understands) unless it runs in UTC.
+ */
+export function withCronTimeZone(expression: string, timezone: string): string {
+  return timezone === DEFAULT_TIMEZONE
+    ? expression.trim()
+    : `CRON_TZ=${timezone} ${expression.trim()}`;
+}
+
+/**
+ * Describe a cron that may carry a CRON_TZ=<zone> prefix.
+ */
+export function describeZonedCron(cron: string): string {
+  const match = cron.trim().match(/^CRON_TZ=(\S+)\s+(.*)$/);
+  if (match) {
+    return describeCron(match[2], match[1]);
+  }
+  return describeCron(cron);
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Check whether a cron expression fires at the given instant (to the minute),
+ * with the expression evaluated in the given IANA timezone.
+ */
+export function matchesCron(
+  expression: string,
+  date: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean {
+  const [minute, hour, dom, month, dow] = parseCron(expression);
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    minute: "numeric",
+    hour: "numeric",
+    day: "numeric",
+    month: "numeric",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  const matchesDom = dom.values.includes(Number(get("day")));
+  const matchesDow = dow.values.includes(WEEKDAY_INDEX[get("weekday")]);
+  const matchesDay = eitherDayMatches(dom, dow)
+    ? matchesDom || matchesDow
+    : matchesDom && matchesDow;
+
+  return (
+    minute.values.includes(Number(get("minute"))) &&
+    hour.values.includes(Number(get("hour"))) &&
+    month.values.includes(Number(get("month"))) &&
+    matchesDay
+  );
+}
+
+/**
+ * Shortest gap in minutes between two consecutive firings of a cron expression,
+ * used to enforce a minimum cadence. Computed from the fields rather than by
+ * simulation, so multi-day gaps are approximate (never overestimated).
+ */
+export function minCronIntervalMinutes(expression: string): number {
+  const [minute, hour, dom, month, dow] = parseCron(expression);
+
+  const times = hour.values.flatMap((h) =>
+    minute.values.map((m) => h * 60 + m)
+  );
+  let gap = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    gap = Math.min(gap, times[i] - times[i - 1]);
+  }
+
+  // Fewest days between two firing days; one day when either day field may match
+  // (or the month field makes it unclear). When both must match, firing days are
+  // at least as far apart as under either field alone.
+  let dayGap = 1;
+  if (!eitherDayMatches(dom, dow)) {
+    if (!dow.wildcard) dayGap = circularMinGap(dow.values, 7);
+    if (!dom.wildcard && month.wildcard) {
+      dayGap = Math.max(dayGap, circularMinGap(dom.values, 28));
+    }
+  }
+
+  // Last firing of one day to the first firing of the next firing day
+  gap = Math.min(gap, dayGap * 24 * 60 - times[times.length - 1] + times[0]);
+  return gap;
+}
+
+// Smallest distance between sorted values on a cycle of at least the given length
+// (days past the cycle, like the 31st on a 28-day cycle, may be skipped)
+function circularMinGap(values: number[], cycle: number): number {
+  if (values.length === 1) return cycle;
+  let gap = Math.max(cycle - values[values.length - 1], 0) + values[0];
+  for (let i = 1; i < values.length; i++) {
+    gap = Math.min(gap, values[i] - values[i - 1]);
+  }
+  return gap;
+}
@@ -0,0 +1,50 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+
+let client: SupabaseClient | null = null;
+
+/**
+ * The Supabase client shared by the Supabase storage backend. Created on first use,
+ * so the env vars are only required when that backend is actually queried.
+ */
+export function getSupabase(): SupabaseClient {
+  if (!client) {
+    const { url: supabaseUrl, serviceRoleKey: supabaseServiceRoleKey } =
+      config.supabase;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error(
+        "Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
+      );
+    }
+
+    client = createClient(supabaseUrl, supabaseServiceRoleKey);
+  }
+  return client;
+}
+
+/**
+ * Run a trivial query to check that Supabase is reachable and the service role key
+ * is accepted
+ */
+export async function checkConnection(): Promise<{
+  success: boolean;
+  error: any;
+}> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_rules")
+      .select("id", { head: true })
+      .limit(1);
+
+    if (error) {
+      logger.error("Supabase connection check failed", { error });
+      return { success: false, error };
+    }
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error checking Supabase connection", { error });
+    return { success: false, error };
+  }
+}
@@ -0,0 +1,360 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+export type ChannelName = "email" | "push" | "webhook";
+
+export const CHANNEL_NAMES: ChannelName[] = ["email", "push", "webhook"];
+
+/**
+ * Channel settings in berry_notification_preferences. A row with rule_id = null holds
+ * the user's defaults; a row for a rule overrides any field it sets (non-null).
+ */
+export interface NotificationPreferences {
+  id?: string;
+  user_id: string;
+  rule_id?: string | null;
+  email_enabled?: boolean | null;
+  email_address?: string | null;
+  push_enabled?: boolean | null;
+  webhook_enabled?: boolean | null;
+  webhook_url?: string | null;
+  webhook_secret?: string | null;
+  updated_at?: string;
+}
+
+export type PreferenceFields = Omit<
+  NotificationPreferences,
+  "id" | "user_id" | "rule_id" | "updated_at"
+>;
+
+// A browser Web Push subscription, in berry_push_subscriptions
+export interface PushSubscriptionRecord {
+  id?: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  created_at?: string;
+}
+
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+// One notification sent (or attempted) over one channel, in berry_notification_deliveries
+export interface DeliveryRecord {
+  id?: string;
+  notification_id: number;
+  user_id: string;
+  channel: ChannelName;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  delivered_at?: string | null;
+  created_at?: string;
+}
+
+/**
+ * Get the user's default preferences and, if given, the rule's overrides
+ */
+export async function getPreferences(
+  user_id: string,
+  rule_id?: string
+): Promise<{
+  data: {
+    user: NotificationPreferences | null;
+    rule: NotificationPreferences | null;
+  } | null;
+  error: any;
+}> {
+  try {
+    let query = getSupabase()
+      .from("berry_notification_preferences")
+      .select("*")
+      .eq("user_id", user_id);
+    query = rule_id
+      ? query.or(`rule_id.is.null,rule_id.eq.${rule_id}`)
+      : query.is("rule_id", null);
+
+    // Newest first, so a duplicate defaults row from a concurrent first save is ignored
+    const { data, error } = await query.order("updated_at", {
+      ascending: false,
+    });
+
+    if (error) {
+      logger.error("Error fetching notification preferences", { error });
+      return { data: null, error };
+    }
+
+    const rows = (data ?? []) as NotificationPreferences[];
+    return {
+      data: {
+        user: rows.find((row) => !row.rule_id) ?? null,
+        rule: rule_id
+          ? rows.find((row) => row.rule_id === rule_id) ?? null
+          : null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error fetching notification preferences", {
+      error,
+    });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Update the user's defaults row, inserting it if there is none. Not an upsert: the
+ * unique (user_id, rule_id) constraint never conflicts on rule_id = null, because
+ * Postgres treats NULLs as distinct.
+ */
+async function saveUserDefaults(
+  row: PreferenceFields & { user_id: string; updated_at: string }
+): Promise<{ data: NotificationPreferences | null; error: any }> {
+  const { data: updated, error } = await getSupabase()
+    .from("berry_notification_preferences")
+    .update(row)
+    .eq("user_id", row.user_id)
+    .is("rule_id", null)
+    .select();
+  if (error || updated?.length) {
+    return { data: updated?.[0] ?? null, error };
+  }
+
+  return getSupabase()
+    .from("berry_notification_preferences")
+    .insert([{ ...row, rule_id: null }])
+    .select()
+    .single();
+}
+
+/**
+ * Create or update the user's default preferences (rule_id omitted) or a rule's overrides
+ */
+export async function upsertPreferences(
+  user_id: string,
+  rule_id: string | null,
+  fields: PreferenceFields
+): Promise<{ data: NotificationPreferences | null; error: any }> {
+  try {
+    const row = {
+      ...fields,
+      user_id,
+      rule_id,
+      updated_at: new Date().toISOString(),
+    };
+    const { data, error } = rule_id
+      ? await getSupabase()
+          .from("berry_notification_preferences")
+          .upsert([row], { onConflict: "user_id,rule_id" })
+          .select()
+          .single()
+      : await saveUserDefaults(row);
+
+    if (error) {
+      logger.error("Error saving notification preferences", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error saving notification preferences", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get all Web Push subscriptions registered by a user
+ */
+export async function getPushSubscriptions(
+  user_id: string
+): Promise<{ data: PushSubscriptionRecord[] | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_push_subscriptions")
+      .select("*")
+      .eq("user_id", user_id);
+
+    if (error) {
+      logger.error("Error fetching push subscriptions", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching push subscriptions", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Register (or re-register) a Web Push subscription for a user
+ */
+export async function savePushSubscription(
+  subscription: Omit<PushSubscriptionRecord, "id" | "created_at">
+): Promise<{ data: PushSubscriptionRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_push_subscriptions")
+      .upsert([subscription], { onConflict: "endpoint" })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error saving push subscription", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error saving push subscription", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Remove a Web Push subscription by endpoint (optionally scoped to a user)
+ */
+export async function deletePushSubscription(
+  endpoint: string,
+  user_id?: string
+): Promise<{ success: boolean; error: any }> {
+  try {
+    let query = getSupabase()
+      .from("berry_push_subscriptions")
+      .delete()
+      .eq("endpoint", endpoint);
+    if (user_id) {
+      query = query.eq("user_id", user_id);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      logger.error("Error deleting push subscription", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error deleting push subscription", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Record a new delivery attempt
+ */
+export async function createDelivery(
+  delivery: Omit<DeliveryRecord, "id" | "created_at">
+): Promise<{ data: DeliveryRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notification_deliveries")
+      .insert([delivery])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error creating delivery", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error creating delivery", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Update a delivery after a (re)try
+ */
+export async function updateDelivery(
+  delivery_id: string,
+  updates: Partial<
+    Pick<
+      DeliveryRecord,
+      "status" | "attempts" | "last_error" | "next_attempt_at" | "delivered_at"
+    >
+  >
+): Promise<{ data: DeliveryRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notification_deliveries")
+      .update(updates)
+      .eq("id", delivery_id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error updating delivery", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error updating delivery", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get the deliveries recorded for a notification
+ */
+export async function getDeliveriesByNotificationId(
+  notification_id: number
+): Promise<{ data: DeliveryRecord[] | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notification_deliveries")
+      .select("*")
+      .eq("notification_id", notification_id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("Error fetching deliveries", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching deliveries", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get failed deliveries that are due for another attempt, optionally for one user
+ */
+export async function getRetryableDeliveries(
+  max_attempts: number,
+  limit: number,
+  user_id?: string
+): Promise<{ data: DeliveryRecord[] | null; error: any }> {
+  try {
+    let query = getSupabase()
+      .from("berry_notification_deliveries")
+      .select("*")
+      .eq("status", "failed")
+      .lt("attempts", max_attempts)
+      .lte("next_attempt_at", new Date().toISOString());
+    if (user_id) {
+      query = query.eq("user_id", user_id);
+    }
+
+    const { data, error } = await query
+      .order("next_attempt_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error("Error fetching retryable deliveries", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching retryable deliveries", { error });
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,116 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+export type LoginAttemptOutcome =
+  | "succeeded"
+  | "invalid_code"
+  | "locked_out"
+  // Valid code of a disabled user
+  | "disabled";
+
+// One /auth/verify attempt, recorded in berry_login_attempts. Doubles as the audit
+// log and the source of truth for throttling. Only an HMAC of the code is stored.
+export interface LoginAttempt {
+  id?: string;
+  ip: string;
+  code_hash: string;
+  user_id?: string | null;
+  outcome: LoginAttemptOutcome;
+  user_agent?: string | null;
+  created_at?: string;
+}
+
+export type AttemptKey = { ip: string } | { code_hash: string };
+
+function keyColumn(key: AttemptKey): [string, string] {
+  return "ip" in key ? ["ip", key.ip] : ["code_hash", key.code_hash];
+}
+
+/**
+ * Record a login attempt
+ */
+export async function recordLoginAttempt(
+  attempt: Omit<LoginAttempt, "id" | "created_at">
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_login_attempts")
+      .insert([attempt]);
+
+    if (error) {
+      logger.error("Error recording login attempt", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error recording login attempt", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Get when the latest successful login for an IP or code happened, or null
+ */
+export async function getLastSuccessfulAttemptAt(
+  key: AttemptKey
+): Promise<{ data: string | null; error: any }> {
+  try {
+    const [column, value] = keyColumn(key);
+    const { data, error } = await getSupabase()
+      .from("berry_login_attempts")
+      .select("created_at")
+      .eq(column, value)
+      .eq("outcome", "succeeded")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching last successful login", { error });
+      return { data: null, error };
+    }
+
+    return { data: data?.created_at ?? null, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching last successful login", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Count an IP's or code's failed attempts since a point in time, along with when
+ * the latest of them happened
+ */
+export async function getFailedAttemptsSince(
+  key: AttemptKey,
+  since: string
+): Promise<{
+  data: { count: number; lastFailedAt: string | null } | null;
+  error: any;
+}> {
+  try {
+    const [column, value] = keyColumn(key);
+    const { data, count, error } = await getSupabase()
+      .from("berry_login_attempts")
+      .select("created_at", { count: "exact" })
+      .eq(column, value)
+      .eq("outcome", "invalid_code")
+      .gt("created_at", since)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      logger.error("Error counting failed logins", { error });
+      return { data: null, error };
+    }
+
+    return {
+      data: { count: count ?? 0, lastFailedAt: data?.[0]?.created_at ?? null },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error counting failed logins", { error });
+    return { data: null, error };
+  }
+}
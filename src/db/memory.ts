@@ -0,0 +1,763 @@
+import { randomUUID } from "node:crypto";
+import type {
+  DeliveryRecord,
+  NotificationPreferences,
+  PushSubscriptionRecord,
+} from "./delivery.js";
+import type { LoginAttempt } from "./loginAttempt.js";
+import type { NotificationRecord } from "./notification.js";
+import type {
+  DeliveryRepository,
+  LoginAttemptRepository,
+  NotificationRepository,
+  Repositories,
+  RuleRepository,
+  RunRepository,
+  SeenItemRepository,
+  SessionRepository,
+  UsageRepository,
+  UserRepository,
+} from "./repositories.js";
+import type { Rule } from "./rule.js";
+import type { RuleRun } from "./run.js";
+import type { SeenItem } from "./seenItem.js";
+import type { Session } from "./session.js";
+import type { UsageEvent } from "./usage.js";
+import type { LoginUser, UserLimitOverrides } from "./user.js";
+
+/**
+ * In-process storage backend (STORAGE_BACKEND=memory). Mirrors what the Supabase
+ * queries return, including column defaults and "no rows" errors from .single(),
+ * so services behave the same on either backend. Rows are copied in and out so
+ * callers cannot mutate stored state.
+ */
+
+type UserRow = LoginUser &
+  UserLimitOverrides & {
+    login_code: string | null;
+  };
+
+const now = () => new Date().toISOString();
+const copy = <T>(value: T): T => structuredClone(value);
+
+// The error PostgREST returns when .single() matches no row
+function noRows(table: string) {
+  return {
+    code: "PGRST116",
+    message: `No rows found in ${table}`,
+  };
+}
+
+function single<T>(row: T | undefined, table: string) {
+  return row
+    ? { data: copy(row), error: null }
+    : { data: null, error: noRows(table) };
+}
+
+function maybeSingle<T>(row: T | undefined) {
+  return { data: row ? copy(row) : null, error: null };
+}
+
+/**
+ * Sort rows by a column. Ties keep insertion order when ascending and reverse it
+ * when descending, like ordering by a timestamp that increases with every insert.
+ */
+function sortBy<T>(rows: T[], column: keyof T, ascending: boolean): T[] {
+  const ordered = ascending ? [...rows] : [...rows].reverse();
+  return ordered.sort((a, b) => {
+    const x = a[column] as any;
+    const y = b[column] as any;
+    if (x === y) return 0;
+    return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+  });
+}
+
+export function createMemoryRepositories(): Repositories {
+  const rules = new Map<string, Rule>();
+  const runs: RuleRun[] = [];
+  const seenItems: SeenItem[] = [];
+  const notifications: NotificationRecord[] = [];
+  const preferences: NotificationPreferences[] = [];
+  const pushSubscriptions: PushSubscriptionRecord[] = [];
+  const deliveries: DeliveryRecord[] = [];
+  const users: UserRow[] = [];
+  const sessions: Session[] = [];
+  const usageEvents: UsageEvent[] = [];
+  const loginAttempts: LoginAttempt[] = [];
+  let lastNotificationId = 0;
+
+  function updateRuleRow(rule_id: string | number, updates: Partial<Rule>) {
+    const rule = rules.get(String(rule_id));
+    if (rule) Object.assign(rule, copy(updates));
+    return single(rule, "berry_rules");
+  }
+
+  const ruleRepository: RuleRepository = {
+    async getRuleById(rule_id) {
+      return single(rules.get(String(rule_id)), "berry_rules");
+    },
+    async createRule(user_id, prompt, rule_id, fields = {}) {
+      const id = rule_id ?? randomUUID();
+      if (rules.has(id)) {
+        return { data: null, error: { message: `Rule ${id} already exists` } };
+      }
+      const created = now();
+      const rule: Rule = {
+        cron_id: null,
+        status: "active",
+        item_schema: null,
+        conditions: [],
+        expires_at: null,
+        max_runs: null,
+        stop_on_first_hit: false,
+        run_count: 0,
+        completed_at: null,
+        completion_reason: null,
+        locked_until: null,
+        lock_token: null,
+        history: [],
+        ...copy(fields),
+        id,
+        user_id,
+        prompt,
+        created_at: created,
+        updated_at: created,
+      };
+      rules.set(id, rule);
+      return { data: copy(rule), error: null };
+    },
+    async getUserRules(user_id) {
+      const owned = [...rules.values()].filter(
+        (rule) => rule.user_id === user_id
+      );
+      return { data: copy(sortBy(owned, "created_at", false)), error: null };
+    },
+    async deleteRule(rule_id) {
+      rules.delete(rule_id);
+      return { success: true, error: null };
+    },
+    async updateRuleCronId(rule_id, cron_id) {
+      return updateRuleRow(rule_id, { cron_id });
+    },
+    async updateRuleHistory(rule_id, history) {
+      return updateRuleRow(rule_id, { history });
+    },
+    async appendRuleHistory(rule_id, entry) {
+      const rule = rules.get(rule_id);
+      return updateRuleRow(rule_id, {
+        history: [...(rule?.history ?? []), entry],
+        updated_at: now(),
+      });
+    },
+    async updateRule(rule_id, updates) {
+      return updateRuleRow(rule_id, { ...updates, updated_at: now() });
+    },
+    async updateRuleStatus(rule_id, status) {
+      return updateRuleRow(rule_id, { status, updated_at: now() });
+    },
+    async completeRule(rule_id, reason) {
+      const completed = now();
+      return updateRuleRow(rule_id, {
+        status: "completed",
+        cron_id: null,
+        completed_at: completed,
+        completion_reason: reason,
+        updated_at: completed,
+      });
+    },
+    async acquireRuleLock(rule_id, lock_token, ttl_ms) {
+      const rule = rules.get(rule_id);
+      const current = Date.now();
+      if (
+        !rule ||
+        (rule.locked_until && new Date(rule.locked_until).getTime() >= current)
+      ) {
+        return { acquired: false, error: null };
+      }
+      rule.lock_token = lock_token;
+      rule.locked_until = new Date(current + ttl_ms).toISOString();
+      return { acquired: true, error: null };
+    },
+    async releaseRuleLock(rule_id, lock_token) {
+      const rule = rules.get(rule_id);
+      if (rule?.lock_token === lock_token) {
+        rule.lock_token = null;
+        rule.locked_until = null;
+      }
+      return { success: true, error: null };
+    },
+  };
+
+  function runsPage(
+    column: "rule_id" | "user_id",
+    value: string,
+    limit: number,
+    offset: number
+  ) {
+    const matching = sortBy(
+      runs.filter((run) => run[column] === value),
+      "started_at",
+      false
+    );
+    return {
+      data: {
+        runs: copy(matching.slice(offset, offset + limit)),
+        total: matching.length,
+        limit,
+        offset,
+      },
+      error: null,
+    };
+  }
+
+  const runRepository: RunRepository = {
+    async createRun(run) {
+      const started = now();
+      const status = run.status ?? "running";
+      const created: RuleRun = {
+        message_id: null,
+        provider: null,
+        model: null,
+        usage: null,
+        found_relevant_results: null,
+        error: null,
+        content: null,
+        notified: null,
+        ...copy(run),
+        id: randomUUID(),
+        status,
+        started_at: started,
+        finished_at: status === "running" ? null : started,
+      };
+      runs.push(created);
+      return { data: copy(created), error: null };
+    },
+    async finishRun(run_id, result) {
+      const run = runs.find((row) => row.id === run_id);
+      if (run) Object.assign(run, copy(result), { finished_at: now() });
+      return single(run, "berry_rule_runs");
+    },
+    async getRunsByRuleId(rule_id, limit, offset) {
+      return runsPage("rule_id", rule_id, limit, offset);
+    },
+    async getRunsByUserId(user_id, limit, offset) {
+      return runsPage("user_id", user_id, limit, offset);
+    },
+    async getLastSucceededRun(rule_id) {
+      return maybeSingle(
+        sortBy(
+          runs.filter(
+            (run) => run.rule_id === rule_id && run.status === "succeeded"
+          ),
+          "started_at",
+          false
+        )[0]
+      );
+    },
+    async getRunsByMessageId(message_id) {
+      return {
+        data: copy(
+          sortBy(
+            runs.filter((run) => run.message_id === message_id),
+            "started_at",
+            true
+          )
+        ),
+        error: null,
+      };
+    },
+  };
+
+  const seenItemRepository: SeenItemRepository = {
+    async getSeenItems(rule_id, fingerprints) {
+      return {
+        data: new Map(
+          seenItems
+            .filter(
+              (item) =>
+                item.rule_id === rule_id &&
+                fingerprints.includes(item.fingerprint)
+            )
+            .map((item) => [item.fingerprint, copy(item)])
+        ),
+        error: null,
+      };
+    },
+    async recordObservedItems(items) {
+      const last_seen_at = now();
+      for (const item of items) {
+        const existing = seenItems.find(
+          (row) =>
+            row.rule_id === item.rule_id && row.fingerprint === item.fingerprint
+        );
+        if (existing) {
+          Object.assign(existing, copy(item), { last_seen_at });
+        } else {
+          seenItems.push({
+            ...copy(item),
+            id: randomUUID(),
+            first_seen_at: last_seen_at,
+            last_seen_at,
+            reported_at: null,
+          });
+        }
+      }
+      return { success: true, error: null };
+    },
+    async markItemsReported(rule_id, fingerprints) {
+      const reported_at = now();
+      for (const item of seenItems) {
+        if (
+          item.rule_id === rule_id &&
+          fingerprints.includes(item.fingerprint)
+        ) {
+          item.reported_at = reported_at;
+        }
+      }
+      return { success: true, error: null };
+    },
+  };
+
+  const findNotification = (userId: string, id: number) =>
+    notifications.find(
+      (notification) =>
+        notification.user_id === userId && notification.id === id
+    );
+
+  const notificationRepository: NotificationRepository = {
+    async createNotification(user_id, rule_id, payload) {
+      const notification: NotificationRecord = {
+        id: ++lastNotificationId,
+        created_at: now(),
+        user_id,
+        rule_id,
+        payload: copy(payload),
+        read_at: null,
+        archived_at: null,
+      };
+      notifications.push(notification);
+      return { data: copy(notification), error: null };
+    },
+    async getNotificationsByUserId(userId, query) {
+      const matching = notifications
+        .filter(
+          (notification) =>
+            notification.user_id === userId &&
+            Boolean(notification.archived_at) === Boolean(query.archived) &&
+            (query.cursor === undefined || notification.id! < query.cursor) &&
+            (!query.ruleId || notification.rule_id === query.ruleId) &&
+            (!query.unreadOnly || !notification.read_at)
+        )
+        .reverse();
+      const page = matching.slice(0, query.limit);
+      return {
+        data: {
+          notifications: copy(page),
+          nextCursor:
+            matching.length > query.limit
+              ? page[page.length - 1]?.id ?? null
+              : null,
+        },
+        error: null,
+      };
+    },
+    async getNotificationById(userId, id) {
+      return maybeSingle(findNotification(userId, id));
+    },
+    async getNotificationsSince(userId, afterId, limit) {
+      return {
+        data: copy(
+          notifications
+            .filter(
+              (notification) =>
+                notification.user_id === userId && notification.id! > afterId
+            )
+            .slice(0, limit)
+        ),
+        error: null,
+      };
+    },
+    async getLatestNotificationId(userId) {
+      const latest = notifications
+        .filter((notification) => notification.user_id === userId)
+        .pop();
+      return { data: latest?.id ?? null, error: null };
+    },
+    async getUnreadCount(userId) {
+      return {
+        data: notifications.filter(
+          (notification) =>
+            notification.user_id === userId &&
+            !notification.read_at &&
+            !notification.archived_at
+        ).length,
+        error: null,
+      };
+    },
+    async stampNotification(userId, id, column) {
+      const notification = findNotification(userId, id);
+      if (notification) notification[column] = now();
+      return maybeSingle(notification);
+    },
+    async markAllAsRead(userId, ruleId) {
+      const read_at = now();
+      let count = 0;
+      for (const notification of notifications) {
+        if (
+          notification.user_id === userId &&
+          !notification.read_at &&
+          (!ruleId || notification.rule_id === ruleId)
+        ) {
+          notification.read_at = read_at;
+          count += 1;
+        }
+      }
+      return { data: count, error: null };
+    },
+    async deleteNotification(userId, id) {
+      const index = notifications.findIndex(
+        (notification) =>
+          notification.user_id === userId && notification.id === id
+      );
+      if (index !== -1) notifications.splice(index, 1);
+      return { success: index !== -1, error: null };
+    },
+  };
+
+  const deliveryRepository: DeliveryRepository = {
+    async getPreferences(user_id, rule_id) {
+      const rows = preferences.filter((row) => row.user_id === user_id);
+      return {
+        data: {
+          user: copy(rows.find((row) => !row.rule_id) ?? null),
+          rule: rule_id
+            ? copy(rows.find((row) => row.rule_id === rule_id) ?? null)
+            : null,
+        },
+        error: null,
+      };
+    },
+    async upsertPreferences(user_id, rule_id, fields) {
+      let row = preferences.find(
+        (existing) =>
+          existing.user_id === user_id && (existing.rule_id ?? null) === rule_id
+      );
+      if (!row) {
+        row = { id: randomUUID(), user_id, rule_id };
+        preferences.push(row);
+      }
+      Object.assign(row, copy(fields), { updated_at: now() });
+      return { data: copy(row), error: null };
+    },
+    async getPushSubscriptions(user_id) {
+      return {
+        data: copy(
+          pushSubscriptions.filter(
+            (subscription) => subscription.user_id === user_id
+          )
+        ),
+        error: null,
+      };
+    },
+    async savePushSubscription(subscription) {
+      let row = pushSubscriptions.find(
+        (existing) => existing.endpoint === subscription.endpoint
+      );
+      if (!row) {
+        row = { ...copy(subscription), id: randomUUID(), created_at: now() };
+        pushSubscriptions.push(row);
+      } else {
+        Object.assign(row, copy(subscription));
+      }
+      return { data: copy(row), error: null };
+    },
+    async deletePushSubscription(endpoint, user_id) {
+      const index = pushSubscriptions.findIndex(
+        (subscription) =>
+          subscription.endpoint === endpoint &&
+          (!user_id || subscription.user_id === user_id)
+      );
+      if (index !== -1) pushSubscriptions.splice(index, 1);
+      return { success: true, error: null };
+    },
+    async createDelivery(delivery) {
+      const created: DeliveryRecord = {
+        ...copy(delivery),
+        id: randomUUID(),
+        created_at: now(),
+      };
+      deliveries.push(created);
+      return { data: copy(created), error: null };
+    },
+    async updateDelivery(delivery_id, updates) {
+      const delivery = deliveries.find((row) => row.id === delivery_id);
+      if (delivery) Object.assign(delivery, copy(updates));
+      return single(delivery, "berry_notification_deliveries");
+    },
+    async getDeliveriesByNotificationId(notification_id) {
+      return {
+        data: copy(
+          deliveries.filter(
+            (delivery) => delivery.notification_id === notification_id
+          )
+        ),
+        error: null,
+      };
+    },
+    async getRetryableDeliveries(max_attempts, limit, user_id) {
+      const current = now();
+      const due = deliveries.filter(
+        (delivery) =>
+          delivery.status === "failed" &&
+          delivery.attempts < max_attempts &&
+          Boolean(delivery.next_attempt_at) &&
+          delivery.next_attempt_at! <= current &&
+          (!user_id || delivery.user_id === user_id)
+      );
+      return {
+        data: copy(sortBy(due, "next_attempt_at", true).slice(0, limit)),
+        error: null,
+      };
+    },
+  };
+
+  // The columns the Supabase queries select for a signing-in user
+  const loginUser = (row: UserRow | undefined): LoginUser | undefined =>
+    row && {
+      id: row.id,
+      name: row.name,
+      created_at: row.created_at,
+      disabled_at: row.disabled_at,
+      login_code_hash: row.login_code_hash,
+    };
+
+  const userRepository: UserRepository = {
+    async getUserLimitOverrides(user_id) {
+      const row = users.find((user) => user.id === user_id);
+      return single(
+        row && {
+          max_rules: row.max_rules,
+          min_interval_minutes: row.min_interval_minutes,
+          monthly_spend_limit_usd: row.monthly_spend_limit_usd,
+        },
+        "berry_users"
+      );
+    },
+    async getUserByLoginCodeHash(login_code_hash) {
+      return maybeSingle(
+        loginUser(
+          users.find((user) => user.login_code_hash === login_code_hash)
+        )
+      );
+    },
+    async getLegacyLoginCodes(limit) {
+      const legacy = users
+        .filter((user) => user.login_code_hash === null && user.login_code)
+        .map((user) => ({ id: user.id, login_code: user.login_code! }));
+      return {
+        data: copy(sortBy(legacy, "id", true).slice(0, limit)),
+        error: null,
+      };
+    },
+    async setLoginCodeHash(user_id, login_code_hash) {
+      const user = users.find((row) => row.id === user_id);
+      if (user) {
+        user.login_code_hash = login_code_hash;
+        user.login_code = null;
+      }
+      return { success: true, error: null };
+    },
+    async createUser(name, login_code_hash) {
+      const user: UserRow = {
+        id: randomUUID(),
+        name,
+        created_at: now(),
+        disabled_at: null,
+        login_code_hash,
+        login_code: null,
+        max_rules: null,
+        min_interval_minutes: null,
+        monthly_spend_limit_usd: null,
+      };
+      users.push(user);
+      return { data: copy(loginUser(user)!), error: null };
+    },
+    async getUserById(user_id) {
+      return maybeSingle(loginUser(users.find((user) => user.id === user_id)));
+    },
+    async setUserDisabledAt(user_id, disabled_at) {
+      const user = users.find((row) => row.id === user_id);
+      if (user) user.disabled_at = disabled_at;
+      return { success: true, error: null };
+    },
+    async getUsersPage(limit, offset) {
+      const page = sortBy(users, "created_at", true)
+        .slice(offset, offset + limit)
+        .map((user) => ({
+          id: user.id,
+          name: user.name,
+          created_at: user.created_at,
+          disabled_at: user.disabled_at,
+          rule_count: [...rules.values()].filter(
+            (rule) => rule.user_id === user.id
+          ).length,
+          notification_count: notifications.filter(
+            (notification) => notification.user_id === user.id
+          ).length,
+        }));
+      return {
+        data: { users: page, total: users.length, limit, offset },
+        error: null,
+      };
+    },
+  };
+
+  const sessionRepository: SessionRepository = {
+    async createSession(session) {
+      const created: Session = {
+        ...copy(session),
+        id: randomUUID(),
+        previous_refresh_token_hash: null,
+        created_at: now(),
+        revoked_at: null,
+      };
+      sessions.push(created);
+      return { data: copy(created), error: null };
+    },
+    async getSessionById(session_id) {
+      return single(
+        sessions.find((session) => session.id === session_id),
+        "berry_sessions"
+      );
+    },
+    async getSessionByRefreshTokenHash(refresh_token_hash) {
+      return maybeSingle(
+        sessions.find(
+          (session) => session.refresh_token_hash === refresh_token_hash
+        )
+      );
+    },
+    async getSessionByPreviousRefreshTokenHash(previous_refresh_token_hash) {
+      return maybeSingle(
+        sessions.find(
+          (session) =>
+            session.previous_refresh_token_hash === previous_refresh_token_hash
+        )
+      );
+    },
+    async rotateSessionRefreshToken(
+      session_id,
+      old_refresh_token_hash,
+      refresh_token_hash,
+      expires_at
+    ) {
+      const session = sessions.find(
+        (row) =>
+          row.id === session_id &&
+          row.refresh_token_hash === old_refresh_token_hash &&
+          !row.revoked_at
+      );
+      if (session) {
+        Object.assign(session, {
+          refresh_token_hash,
+          previous_refresh_token_hash: old_refresh_token_hash,
+          expires_at,
+        });
+      }
+      return maybeSingle(session);
+    },
+    async revokeSession(session_id) {
+      const session = sessions.find((row) => row.id === session_id);
+      if (session) session.revoked_at = now();
+      return { success: true, error: null };
+    },
+    async revokeUserSessions(user_id) {
+      const revoked_at = now();
+      for (const session of sessions) {
+        if (session.user_id === user_id && !session.revoked_at) {
+          session.revoked_at = revoked_at;
+        }
+      }
+      return { success: true, error: null };
+    },
+  };
+
+  const usageRepository: UsageRepository = {
+    async recordUsageEvents(events) {
+      const created_at = now();
+      usageEvents.push(
+        ...events.map((event) => ({
+          ...copy(event),
+          id: randomUUID(),
+          created_at,
+        }))
+      );
+      return { success: true, error: null };
+    },
+    async getSpendSince(user_id, since) {
+      const spend = usageEvents
+        .filter(
+          (event) => event.user_id === user_id && event.created_at! >= since
+        )
+        .reduce((sum, event) => sum + Number(event.cost_usd ?? 0), 0);
+      return { data: spend, error: null };
+    },
+    async getUsageEventsSince(user_id, since) {
+      return {
+        data: copy(
+          usageEvents.filter(
+            (event) => event.user_id === user_id && event.created_at! >= since
+          )
+        ),
+        error: null,
+      };
+    },
+  };
+
+  const attemptsFor = (key: { ip: string } | { code_hash: string }) =>
+    loginAttempts.filter((attempt) =>
+      "ip" in key ? attempt.ip === key.ip : attempt.code_hash === key.code_hash
+    );
+
+  const loginAttemptRepository: LoginAttemptRepository = {
+    async recordLoginAttempt(attempt) {
+      loginAttempts.push({
+        ...copy(attempt),
+        id: randomUUID(),
+        created_at: now(),
+      });
+      return { success: true, error: null };
+    },
+    async getLastSuccessfulAttemptAt(key) {
+      const last = attemptsFor(key)
+        .filter((attempt) => attempt.outcome === "succeeded")
+        .pop();
+      return { data: last?.created_at ?? null, error: null };
+    },
+    async getFailedAttemptsSince(key, since) {
+      const failed = attemptsFor(key).filter(
+        (attempt) =>
+          attempt.outcome === "invalid_code" && attempt.created_at! > since
+      );
+      return {
+        data: {
+          count: failed.length,
+          lastFailedAt: failed[failed.length - 1]?.created_at ?? null,
+        },
+        error: null,
+      };
+    },
+  };
+
+  return {
+    rules: ruleRepository,
+    runs: runRepository,
+    seenItems: seenItemRepository,
+    notifications: notificationRepository,
+    deliveries: deliveryRepository,
+    users: userRepository,
+    sessions: sessionRepository,
+    usage: usageRepository,
+    loginAttempts: loginAttemptRepository,
+  };
+}
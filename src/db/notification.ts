@@ -0,0 +1,308 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// A notification shown to a user, recorded in berry_notifications
+export interface NotificationRecord {
+  id?: number;
+  created_at?: string;
+  user_id: string;
+  rule_id: string;
+  payload: any;
+  read_at?: string | null;
+  archived_at?: string | null;
+}
+
+export interface NotificationQuery {
+  // Only return notifications older than this id (the previous page's nextCursor)
+  cursor?: number;
+  limit: number;
+  ruleId?: string;
+  unreadOnly?: boolean;
+  archived?: boolean;
+}
+
+export interface NotificationPage {
+  notifications: NotificationRecord[];
+  nextCursor: number | null;
+}
+
+/**
+ * Insert a new notification. created_at/id are database-generated.
+ */
+export async function createNotification(
+  user_id: string,
+  rule_id: string,
+  payload: Record<string, any>
+): Promise<{ data: NotificationRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .insert([{ user_id, rule_id, payload }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error creating notification", { error });
+      return { data: null, error };
+    }
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error creating notification", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fetch a page of notifications for a specific user, newest first. Archived
+ * notifications are excluded unless query.archived is set.
+ */
+export async function getNotificationsByUserId(
+  userId: string,
+  query: NotificationQuery
+): Promise<{
+  data: NotificationPage | null;
+  error: any;
+}> {
+  try {
+    let request = getSupabase()
+      .from("berry_notifications")
+      .select("*")
+      .eq("user_id", userId);
+
+    request = query.archived
+      ? request.not("archived_at", "is", null)
+      : request.is("archived_at", null);
+    if (query.cursor !== undefined) {
+      request = request.lt("id", query.cursor);
+    }
+    if (query.ruleId) {
+      request = request.eq("rule_id", query.ruleId);
+    }
+    if (query.unreadOnly) {
+      request = request.is("read_at", null);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await request
+      .order("id", { ascending: false })
+      .limit(query.limit + 1);
+
+    if (error) {
+      logger.error("Error fetching notifications", { error });
+      return { data: null, error };
+    }
+
+    logger.debug("Fetched notifications", {
+      userId,
+      count: data?.length ?? 0,
+    });
+
+    const notifications = (data ?? []).slice(0, query.limit);
+    const hasMore = (data ?? []).length > query.limit;
+    return {
+      data: {
+        notifications,
+        nextCursor: hasMore
+          ? notifications[notifications.length - 1]?.id ?? null
+          : null,
+      },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error fetching notifications", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fetch one of the user's notifications by id. data is null if it does not exist.
+ */
+export async function getNotificationById(
+  userId: string,
+  id: number
+): Promise<{ data: NotificationRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching notification", { error });
+      return { data: null, error };
+    }
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching notification", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Fetch the user's notifications created after afterId, oldest first. Used to
+ * replay what a reconnecting stream client missed (Last-Event-ID).
+ */
+export async function getNotificationsSince(
+  userId: string,
+  afterId: number,
+  limit: number
+): Promise<{ data: NotificationRecord[] | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .select("*")
+      .eq("user_id", userId)
+      .gt("id", afterId)
+      .order("id", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error("Error fetching notifications since id", { error });
+      return { data: null, error };
+    }
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching notifications since id", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Id of the user's newest notification (archived or not), or null if they have none.
+ */
+export async function getLatestNotificationId(
+  userId: string
+): Promise<{ data: number | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .select("id")
+      .eq("user_id", userId)
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching latest notification id", { error });
+      return { data: null, error };
+    }
+    return { data: data?.id ?? null, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching latest notification id", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Count unread, unarchived notifications without fetching them (for the app badge).
+ */
+export async function getUnreadCount(
+  userId: string
+): Promise<{ data: number | null; error: any }> {
+  try {
+    const { count, error } = await getSupabase()
+      .from("berry_notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null)
+      .is("archived_at", null);
+
+    if (error) {
+      logger.error("Error counting unread notifications", { error });
+      return { data: null, error };
+    }
+    return { data: count ?? 0, error: null };
+  } catch (error) {
+    logger.error("Unexpected error counting unread notifications", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Set a timestamp column (read_at/archived_at) on one of the user's notifications.
+ */
+export async function stampNotification(
+  userId: string,
+  id: number,
+  column: "read_at" | "archived_at"
+): Promise<{ data: NotificationRecord | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .update({ [column]: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error setting notification column", { column, error });
+      return { data: null, error };
+    }
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error setting notification column", {
+      column,
+      error,
+    });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Mark all of the user's unread notifications as read, optionally for one rule.
+ */
+export async function markAllAsRead(
+  userId: string,
+  ruleId?: string
+): Promise<{ data: number | null; error: any }> {
+  try {
+    let request = getSupabase()
+      .from("berry_notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    if (ruleId) {
+      request = request.eq("rule_id", ruleId);
+    }
+
+    const { data, error } = await request.select("id");
+
+    if (error) {
+      logger.error("Error marking notifications as read", { error });
+      return { data: null, error };
+    }
+    return { data: data?.length ?? 0, error: null };
+  } catch (error) {
+    logger.error("Unexpected error marking notifications as read", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete one of the user's notifications.
+ */
+export async function deleteNotification(
+  userId: string,
+  id: number
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_notifications")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      logger.error("Error deleting notification", { error });
+      return { success: false, error };
+    }
+    return { success: Boolean(data?.length), error: null };
+  } catch (error) {
+    logger.error("Unexpected error deleting notification", { error });
+    return { success: false, error };
+  }
+}
@@ -0,0 +1,256 @@
+import { config } from "../config.js";
+import type {
+  DeliveryRecord,
+  NotificationPreferences,
+  PreferenceFields,
+  PushSubscriptionRecord,
+} from "./delivery.js";
+import * as deliveryTable from "./delivery.js";
+import type { AttemptKey, LoginAttempt } from "./loginAttempt.js";
+import * as loginAttemptTable from "./loginAttempt.js";
+import { createMemoryRepositories } from "./memory.js";
+import type {
+  NotificationPage,
+  NotificationQuery,
+  NotificationRecord,
+} from "./notification.js";
+import * as notificationTable from "./notification.js";
+import type { CompletionReason, Rule, RuleStatus, RuleUpdate } from "./rule.js";
+import * as ruleTable from "./rule.js";
+import type { RuleRun, RunPage, RunResult } from "./run.js";
+import * as runTable from "./run.js";
+import type { SeenItem } from "./seenItem.js";
+import * as seenItemTable from "./seenItem.js";
+import type { Session } from "./session.js";
+import * as sessionTable from "./session.js";
+import type { UsageEvent } from "./usage.js";
+import * as usageTable from "./usage.js";
+import type {
+  LegacyLoginCode,
+  LoginUser,
+  UserLimitOverrides,
+  UserPage,
+} from "./user.js";
+import * as userTable from "./user.js";
+
+/**
+ * Storage behind the services, one repository per kind of record. Every method
+ * resolves to { data, error } or { success, error } and never throws, matching the
+ * Supabase functions in the sibling modules, which are the default backend.
+ */
+
+type Result<T> = Promise<{ data: T | null; error: any }>;
+type Outcome = Promise<{ success: boolean; error: any }>;
+type HistoryEntry = { content: string; timestamp: string };
+
+export interface RuleRepository {
+  getRuleById(rule_id: string | number): Result<Rule>;
+  createRule(
+    user_id: string,
+    prompt: string,
+    rule_id?: string,
+    fields?: RuleUpdate
+  ): Result<Rule>;
+  getUserRules(user_id: string): Result<Rule[]>;
+  deleteRule(rule_id: string): Outcome;
+  updateRuleCronId(rule_id: string, cron_id: string): Result<Rule>;
+  updateRuleHistory(rule_id: string, history: HistoryEntry[]): Result<Rule>;
+  appendRuleHistory(rule_id: string, entry: HistoryEntry): Result<Rule>;
+  updateRule(rule_id: string, updates: RuleUpdate): Result<Rule>;
+  updateRuleStatus(rule_id: string, status: RuleStatus): Result<Rule>;
+  completeRule(rule_id: string, reason: CompletionReason): Result<Rule>;
+  acquireRuleLock(
+    rule_id: string,
+    lock_token: string,
+    ttl_ms: number
+  ): Promise<{ acquired: boolean; error: any }>;
+  releaseRuleLock(rule_id: string, lock_token: string): Outcome;
+}
+
+export interface RunRepository {
+  createRun(
+    run: Pick<RuleRun, "rule_id" | "user_id" | "trigger" | "message_id"> &
+      RunResult
+  ): Result<RuleRun>;
+  finishRun(run_id: string, result: RunResult): Result<RuleRun>;
+  getRunsByRuleId(
+    rule_id: string,
+    limit: number,
+    offset: number
+  ): Result<RunPage>;
+  getRunsByUserId(
+    user_id: string,
+    limit: number,
+    offset: number
+  ): Result<RunPage>;
+  getLastSucceededRun(rule_id: string): Result<RuleRun>;
+  getRunsByMessageId(message_id: string): Result<RuleRun[]>;
+}
+
+export interface SeenItemRepository {
+  getSeenItems(
+    rule_id: string,
+    fingerprints: string[]
+  ): Result<Map<string, SeenItem>>;
+  recordObservedItems(
+    items: Pick<
+      SeenItem,
+      "rule_id" | "fingerprint" | "title" | "url" | "fields"
+    >[]
+  ): Outcome;
+  markItemsReported(rule_id: string, fingerprints: string[]): Outcome;
+}
+
+export interface NotificationRepository {
+  createNotification(
+    user_id: string,
+    rule_id: string,
+    payload: Record<string, any>
+  ): Result<NotificationRecord>;
+  getNotificationsByUserId(
+    userId: string,
+    query: NotificationQuery
+  ): Result<NotificationPage>;
+  getNotificationById(userId: string, id: number): Result<NotificationRecord>;
+  getNotificationsSince(
+    userId: string,
+    afterId: number,
+    limit: number
+  ): Result<NotificationRecord[]>;
+  getLatestNotificationId(userId: string): Result<number>;
+  getUnreadCount(userId: string): Result<number>;
+  stampNotification(
+    userId: string,
+    id: number,
+    column: "read_at" | "archived_at"
+  ): Result<NotificationRecord>;
+  markAllAsRead(userId: string, ruleId?: string): Result<number>;
+  deleteNotification(userId: string, id: number): Outcome;
+}
+
+export interface DeliveryRepository {
+  getPreferences(
+    user_id: string,
+    rule_id?: string
+  ): Result<{
+    user: NotificationPreferences | null;
+    rule: NotificationPreferences | null;
+  }>;
+  upsertPreferences(
+    user_id: string,
+    rule_id: string | null,
+    fields: PreferenceFields
+  ): Result<NotificationPreferences>;
+  getPushSubscriptions(user_id: string): Result<PushSubscriptionRecord[]>;
+  savePushSubscription(
+    subscription: Omit<PushSubscriptionRecord, "id" | "created_at">
+  ): Result<PushSubscriptionRecord>;
+  deletePushSubscription(endpoint: string, user_id?: string): Outcome;
+  createDelivery(
+    delivery: Omit<DeliveryRecord, "id" | "created_at">
+  ): Result<DeliveryRecord>;
+  updateDelivery(
+    delivery_id: string,
+    updates: Partial<
+      Pick<
+        DeliveryRecord,
+        | "status"
+        | "attempts"
+        | "last_error"
+        | "next_attempt_at"
+        | "delivered_at"
+      >
+    >
+  ): Result<DeliveryRecord>;
+  getDeliveriesByNotificationId(
+    notification_id: number
+  ): Result<DeliveryRecord[]>;
+  getRetryableDeliveries(
+    max_attempts: number,
+    limit: number,
+    user_id?: string
+  ): Result<DeliveryRecord[]>;
+}
+
+export interface UserRepository {
+  getUserLimitOverrides(user_id: string): Result<UserLimitOverrides>;
+  getUserByLoginCodeHash(login_code_hash: string): Result<LoginUser>;
+  getLegacyLoginCodes(limit: number): Result<LegacyLoginCode[]>;
+  setLoginCodeHash(user_id: string, login_code_hash: string): Outcome;
+  createUser(name: string, login_code_hash: string): Result<LoginUser>;
+  getUserById(user_id: string): Result<LoginUser>;
+  setUserDisabledAt(user_id: string, disabled_at: string | null): Outcome;
+  getUsersPage(limit: number, offset: number): Result<UserPage>;
+}
+
+export interface SessionRepository {
+  createSession(
+    session: Pick<Session, "user_id" | "refresh_token_hash" | "expires_at">
+  ): Result<Session>;
+  getSessionById(session_id: string): Result<Session>;
+  getSessionByRefreshTokenHash(refresh_token_hash: string): Result<Session>;
+  getSessionByPreviousRefreshTokenHash(
+    previous_refresh_token_hash: string
+  ): Result<Session>;
+  rotateSessionRefreshToken(
+    session_id: string,
+    old_refresh_token_hash: string,
+    refresh_token_hash: string,
+    expires_at: string
+  ): Result<Session>;
+  revokeSession(session_id: string): Outcome;
+  revokeUserSessions(user_id: string): Outcome;
+}
+
+export interface UsageRepository {
+  recordUsageEvents(events: Omit<UsageEvent, "id" | "created_at">[]): Outcome;
+  getSpendSince(user_id: string, since: string): Result<number>;
+  getUsageEventsSince(user_id: string, since: string): Result<UsageEvent[]>;
+}
+
+export interface LoginAttemptRepository {
+  recordLoginAttempt(attempt: Omit<LoginAttempt, "id" | "created_at">): Outcome;
+  getLastSuccessfulAttemptAt(key: AttemptKey): Result<string>;
+  getFailedAttemptsSince(
+    key: AttemptKey,
+    since: string
+  ): Result<{ count: number; lastFailedAt: string | null }>;
+}
+
+export interface Repositories {
+  rules: RuleRepository;
+  runs: RunRepository;
+  seenItems: SeenItemRepository;
+  notifications: NotificationRepository;
+  deliveries: DeliveryRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+  usage: UsageRepository;
+  loginAttempts: LoginAttemptRepository;
+}
+
+/**
+ * Build the repositories selected by STORAGE_BACKEND ("supabase" by default).
+ * "memory" keeps everything in process and needs no database, for running the
+ * server offline and in tests; its data is lost on restart.
+ */
+function createRepositories(): Repositories {
+  switch (config.storageBackend) {
+    case "supabase":
+      return {
+        rules: ruleTable,
+        runs: runTable,
+        seenItems: seenItemTable,
+        notifications: notificationTable,
+        deliveries: deliveryTable,
+        users: userTable,
+        sessions: sessionTable,
+        usage: usageTable,
+        loginAttempts: loginAttemptTable,
+      };
+    case "memory":
+      return createMemoryRepositories();
+  }
+}
+
+export const db: Repositories = createRepositories();
@@ -1,7 +1,15 @@
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
-import dotenv from "dotenv";
+import type { AlertCondition } from "../conditions.js";
+import type { ItemSchema } from "../items.js";
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
 
-dotenv.config();
+export type RuleStatus = "active" | "paused" | "completed";
+
+// Why a bounded rule stopped running
+export type CompletionReason = "expired" | "max_runs" | "first_hit";
+
+// How a rule is executed: web-search generation, or the computer-use browser agent
+export type ExecutionMode = "web_search" | "browser";
 
 // Define the Rule type for better type safety
 export interface Rule {
@@ -10,28 +18,34 @@ export interface Rule {
   prompt: string;
   created_at?: string;
   updated_at?: string;
-  cron_id?: string;
+  cron_id?: string | null;
+  cron?: string;
+  timezone?: string;
+  status?: RuleStatus;
+  provider?: string;
+  model?: string;
+  execution_mode?: ExecutionMode;
+  // Typed shape of the items this rule reports; null for free-form answers
+  item_schema?: ItemSchema | null;
+  // Alert conditions the execution output must satisfy to notify; see conditions.ts
+  conditions?: AlertCondition[] | null;
+  // Optional bounds; the rule completes when any is reached
+  expires_at?: string | null;
+  max_runs?: number | null;
+  stop_on_first_hit?: boolean;
+  // Successful executions so far, counted against max_runs
+  run_count?: number;
+  completed_at?: string | null;
+  completion_reason?: CompletionReason | null;
+  // Per-rule execution lock (see acquireRuleLock)
+  locked_until?: string | null;
+  lock_token?: string | null;
   history?: Array<{
     content: string;
     timestamp: string;
   }>;
 }
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!supabaseUrl || !supabaseServiceRoleKey) {
-  throw new Error(
-    "Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
-  );
-}
-
-const supabase: SupabaseClient = createClient(
-  supabaseUrl,
-  supabaseServiceRoleKey
-);
-
 /**
  * Get a single rule by ID
  */
@@ -39,37 +53,59 @@ export async function getRuleById(
   rule_id: string | number
 ): Promise<{ data: Rule | null; error: any }> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from("berry_rules")
       .select("*")
       .eq("id", rule_id as any)
       .single();
 
     if (error) {
-      console.error("Error fetching rule by id:", error);
+      logger.error("Error fetching rule by id", { error });
       return { data: null, error };
     }
 
     return { data, error: null };
   } catch (error) {
-    console.error("Unexpected error fetching rule by id:", error);
+    logger.error("Unexpected error fetching rule by id", { error });
     return { data: null, error };
   }
 }
 
+// Fields of a rule that may be changed after creation
+export type RuleUpdate = Partial<
+  Pick<
+    Rule,
+    | "prompt"
+    | "cron_id"
+    | "cron"
+    | "timezone"
+    | "provider"
+    | "model"
+    | "execution_mode"
+    | "item_schema"
+    | "conditions"
+    | "expires_at"
+    | "max_runs"
+    | "stop_on_first_hit"
+    | "run_count"
+  >
+>;
+
 /**
  * Create a new rule
  */
 export async function createRule(
   user_id: string,
   prompt: string,
-  rule_id?: string
+  rule_id?: string,
+  fields: RuleUpdate = {}
 ): Promise<{ data: Rule | null; error: any }> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from("berry_rules")
       .insert([
         {
+          ...fields,
           id: rule_id,
           user_id,
           prompt,
@@ -79,14 +115,14 @@ export async function createRule(
       .single();
 
     if (error) {
-      console.error("Error creating rule:", error);
+      logger.error("Error creating rule", { error });
       return { data: null, error };
     }
 
-    console.log("Rule created successfully:", data);
+    logger.info("Rule created", { ruleId: data?.id });
     return { data, error: null };
   } catch (error) {
-    console.error("Unexpected error creating rule:", error);
+    logger.error("Unexpected error creating rule", { error });
     return { data: null, error };
   }
 }
@@ -98,21 +134,21 @@ export async function getUserRules(
   user_id: string
 ): Promise<{ data: Rule[] | null; error: any }> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from("berry_rules")
       .select("*")
       .eq("user_id", user_id)
       .order("created_at", { ascending: false });
 
     if (error) {
-      console.error("Error fetching user rules:", error);
+      logger.error("Error fetching user rules", { error });
       return { data: null, error };
     }
 
-    console.log(`Fetched ${data?.length} user rules`);
+    logger.debug("Fetched user rules", { count: data?.length ?? 0 });
     return { data, error: null };
   } catch (error) {
-    console.error("Unexpected error fetching user rules:", error);
+    logger.error("Unexpected error fetching user rules", { error });
     return { data: null, error };
   }
 }
@@ -124,20 +160,20 @@ export async function deleteRule(
   rule_id: string
 ): Promise<{ success: boolean; error: any }> {
   try {
-    const { error } = await supabase
+    const { error } = await getSupabase()
       .from("berry_rules")
       .delete()
       .eq("id", rule_id);
 
     if (error) {
-      console.error("Error deleting rule:", error);
+      logger.error("Error deleting rule", { error });
       return { success: false, error };
     }
 
-    console.log("Rule deleted successfully from database");
+    logger.info("Rule deleted", { ruleId: rule_id });
     return { success: true, error: null };
   } catch (error) {
-    console.error("Unexpected error deleting rule:", error);
+    logger.error("Unexpected error deleting rule", { error });
     return { success: false, error };
   }
 }
@@ -150,7 +186,7 @@ export async function updateRuleCronId(
   cron_id: string
 ): Promise<{ data: Rule | null; error: any }> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from("berry_rules")
       .update({ cron_id })
       .eq("id", rule_id)
@@ -158,13 +194,13 @@ export async function updateRuleCronId(
       .single();
 
     if (error) {
-      console.error("Error updating rule cron_id:", error);
+      logger.error("Error updating rule cron_id", { error });
       return { data: null, error };
     }
 
     return { data, error: null };
   } catch (error) {
-    console.error("Unexpected error updating rule cron_id:", error);
+    logger.error("Unexpected error updating rule cron_id", { error });
     return { data: null, error };
   }
 }
@@ -177,7 +213,7 @@ export async function updateRuleHistory(
   history: Array<{ content: string; timestamp: string }>
 ): Promise<{ data: Rule | null; error: any }> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from("berry_rules")
       .update({ history })
       .eq("id", rule_id)
@@ -185,14 +221,214 @@ export async function updateRuleHistory(
       .single();
 
     if (error) {
-      console.error("Error updating rule history:", error);
+      logger.error("Error updating rule history", { error });
       return { data: null, error };
     }
 
-    console.log("Rule history updated successfully");
+    logger.debug("Rule history updated", { ruleId: rule_id });
     return { data, error: null };
   } catch (error) {
-    console.error("Unexpected error updating rule history:", error);
+    logger.error("Unexpected error updating rule history", { error });
     return { data: null, error };
   }
 }
+
+const HISTORY_APPEND_ATTEMPTS = 5;
+
+/**
+ * Append one entry to a rule's history without losing concurrent appends: the write
+ * only applies if updated_at is unchanged since the read (compare-and-swap), and is
+ * retried otherwise.
+ */
+export async function appendRuleHistory(
+  rule_id: string,
+  entry: { content: string; timestamp: string }
+): Promise<{ data: Rule | null; error: any }> {
+  try {
+    for (let attempt = 0; attempt < HISTORY_APPEND_ATTEMPTS; attempt++) {
+      const { data: current, error: readError } = await getSupabase()
+        .from("berry_rules")
+        .select("history, updated_at")
+        .eq("id", rule_id)
+        .single();
+      if (readError) {
+        logger.error("Error reading rule history", { error: readError });
+        return { data: null, error: readError };
+      }
+
+      let query = getSupabase()
+        .from("berry_rules")
+        .update({
+          history: [...(current.history ?? []), entry],
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", rule_id);
+      query = current.updated_at
+        ? query.eq("updated_at", current.updated_at)
+        : query.is("updated_at", null);
+
+      const { data, error } = await query.select();
+      if (error) {
+        logger.error("Error appending rule history", { error });
+        return { data: null, error };
+      }
+      if (data?.length) {
+        return { data: data[0], error: null };
+      }
+      // The rule changed between read and write; read it again
+    }
+    return { data: null, error: "Rule history kept changing; append gave up" };
+  } catch (error) {
+    logger.error("Unexpected error appending rule history", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Update editable fields on a rule (prompt, schedule, cron_id, model selection and/or execution mode)
+ */
+export async function updateRule(
+  rule_id: string,
+  updates: RuleUpdate
+): Promise<{ data: Rule | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rules")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", rule_id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error updating rule", { error });
+      return { data: null, error };
+    }
+
+    logger.info("Rule updated", { ruleId: data?.id });
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error updating rule", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Update a rule's status (active/paused)
+ */
+export async function updateRuleStatus(
+  rule_id: string,
+  status: RuleStatus
+): Promise<{ data: Rule | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rules")
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq("id", rule_id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error updating rule status", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error updating rule status", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Mark a bounded rule completed. Its schedule is gone, so cron_id is cleared.
+ */
+export async function completeRule(
+  rule_id: string,
+  reason: CompletionReason
+): Promise<{ data: Rule | null; error: any }> {
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await getSupabase()
+      .from("berry_rules")
+      .update({
+        status: "completed",
+        cron_id: null,
+        completed_at: now,
+        completion_reason: reason,
+        updated_at: now,
+      })
+      .eq("id", rule_id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error completing rule", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error completing rule", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Take the rule's execution lock for ttl_ms unless another holder's lock is still
+ * live. The lease expires on its own, so a crashed run cannot block the rule forever.
+ * acquired is false when the lock is held elsewhere.
+ */
+export async function acquireRuleLock(
+  rule_id: string,
+  lock_token: string,
+  ttl_ms: number
+): Promise<{ acquired: boolean; error: any }> {
+  try {
+    const now = new Date();
+    const { data, error } = await getSupabase()
+      .from("berry_rules")
+      .update({
+        lock_token,
+        locked_until: new Date(now.getTime() + ttl_ms).toISOString(),
+      })
+      .eq("id", rule_id)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select("id");
+
+    if (error) {
+      logger.error("Error acquiring rule lock", { error });
+      return { acquired: false, error };
+    }
+
+    return { acquired: Boolean(data?.length), error: null };
+  } catch (error) {
+    logger.error("Unexpected error acquiring rule lock", { error });
+    return { acquired: false, error };
+  }
+}
+
+/**
+ * Release the rule's execution lock, if it is still held with this token
+ */
+export async function releaseRuleLock(
+  rule_id: string,
+  lock_token: string
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_rules")
+      .update({ lock_token: null, locked_until: null })
+      .eq("id", rule_id)
+      .eq("lock_token", lock_token);
+
+    if (error) {
+      logger.error("Error releasing rule lock", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error releasing rule lock", { error });
+    return { success: false, error };
+  }
+}
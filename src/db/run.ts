@@ -0,0 +1,222 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// What caused a rule to execute
+export type RunTrigger = "schedule" | "manual" | "immediate";
+
+export type RunStatus = "running" | "succeeded" | "failed" | "skipped";
+
+// One execution of a rule, recorded in berry_rule_runs
+export interface RuleRun {
+  id?: string;
+  rule_id: string;
+  user_id: string;
+  trigger: RunTrigger;
+  // Upstash message id of the delivery that started the run, if any
+  message_id?: string | null;
+  status: RunStatus;
+  started_at?: string;
+  finished_at?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+  } | null;
+  // The model's own judgment and answer, before seen items and conditions apply
+  found_relevant_results?: boolean | null;
+  error?: string | null;
+  content?: string | null;
+  // Whether the run notified the user, after dropping seen items and checking conditions
+  notified?: boolean | null;
+}
+
+// Fields recorded when a run finishes
+export type RunResult = Partial<
+  Pick<
+    RuleRun,
+    | "status"
+    | "provider"
+    | "model"
+    | "usage"
+    | "found_relevant_results"
+    | "error"
+    | "content"
+    | "notified"
+  >
+>;
+
+export interface RunPage {
+  runs: RuleRun[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Record the start of a rule execution. Runs created with a final status
+ * (e.g. skipped) are marked finished immediately.
+ */
+export async function createRun(
+  run: Pick<RuleRun, "rule_id" | "user_id" | "trigger" | "message_id"> &
+    RunResult
+): Promise<{ data: RuleRun | null; error: any }> {
+  try {
+    const now = new Date().toISOString();
+    const status = run.status ?? "running";
+    const { data, error } = await getSupabase()
+      .from("berry_rule_runs")
+      .insert([
+        {
+          ...run,
+          status,
+          started_at: now,
+          finished_at: status === "running" ? null : now,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error creating run", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error creating run", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Record the outcome of a rule execution
+ */
+export async function finishRun(
+  run_id: string,
+  result: RunResult
+): Promise<{ data: RuleRun | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rule_runs")
+      .update({ ...result, finished_at: new Date().toISOString() })
+      .eq("id", run_id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error finishing run", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error finishing run", { error });
+    return { data: null, error };
+  }
+}
+
+async function getRunsPage(
+  column: "rule_id" | "user_id",
+  value: string,
+  limit: number,
+  offset: number
+): Promise<{ data: RunPage | null; error: any }> {
+  try {
+    const { data, error, count } = await getSupabase()
+      .from("berry_rule_runs")
+      .select("*", { count: "exact" })
+      .eq(column, value)
+      .order("started_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error("Error fetching runs", { error });
+      return { data: null, error };
+    }
+
+    return {
+      data: { runs: data ?? [], total: count ?? 0, limit, offset },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error fetching runs", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a page of runs for a rule, newest first
+ */
+export async function getRunsByRuleId(
+  rule_id: string,
+  limit: number,
+  offset: number
+): Promise<{ data: RunPage | null; error: any }> {
+  return getRunsPage("rule_id", rule_id, limit, offset);
+}
+
+/**
+ * Get a page of runs across all of a user's rules, newest first
+ */
+export async function getRunsByUserId(
+  user_id: string,
+  limit: number,
+  offset: number
+): Promise<{ data: RunPage | null; error: any }> {
+  return getRunsPage("user_id", user_id, limit, offset);
+}
+
+/**
+ * Get the rule's most recent successful run, or null if it has none
+ */
+export async function getLastSucceededRun(
+  rule_id: string
+): Promise<{ data: RuleRun | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rule_runs")
+      .select("*")
+      .eq("rule_id", rule_id)
+      .eq("status", "succeeded")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching last successful run", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching last successful run", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get the runs started by a given Upstash message, oldest first
+ */
+export async function getRunsByMessageId(
+  message_id: string
+): Promise<{ data: RuleRun[] | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rule_runs")
+      .select("*")
+      .eq("message_id", message_id)
+      .order("started_at", { ascending: true });
+
+    if (error) {
+      logger.error("Error fetching runs by message id", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching runs by message id", { error });
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,108 @@
+import type { ItemFieldValue } from "../items.js";
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// An item a rule's executions have extracted, recorded in berry_rule_seen_items.
+// (rule_id, fingerprint) is unique. fields are as of the latest run that saw the
+// item; reported_at is set once the item has been included in a notification.
+export interface SeenItem {
+  id?: string;
+  rule_id: string;
+  fingerprint: string;
+  title?: string | null;
+  url?: string | null;
+  fields?: Record<string, ItemFieldValue> | null;
+  first_seen_at?: string;
+  last_seen_at?: string;
+  reported_at?: string | null;
+}
+
+/**
+ * Get the rule's records for the given fingerprints, keyed by fingerprint
+ */
+export async function getSeenItems(
+  rule_id: string,
+  fingerprints: string[]
+): Promise<{ data: Map<string, SeenItem> | null; error: any }> {
+  if (!fingerprints.length) return { data: new Map(), error: null };
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_rule_seen_items")
+      .select("*")
+      .eq("rule_id", rule_id)
+      .in("fingerprint", fingerprints);
+
+    if (error) {
+      logger.error("Error fetching seen items", { error });
+      return { data: null, error };
+    }
+
+    return {
+      data: new Map(
+        ((data ?? []) as SeenItem[]).map((row) => [row.fingerprint, row])
+      ),
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error fetching seen items", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Record the items a run extracted, refreshing the fields of ones already known
+ */
+export async function recordObservedItems(
+  items: Pick<
+    SeenItem,
+    "rule_id" | "fingerprint" | "title" | "url" | "fields"
+  >[]
+): Promise<{ success: boolean; error: any }> {
+  if (!items.length) return { success: true, error: null };
+  try {
+    const last_seen_at = new Date().toISOString();
+    const { error } = await getSupabase()
+      .from("berry_rule_seen_items")
+      .upsert(
+        items.map((item) => ({ ...item, last_seen_at })),
+        { onConflict: "rule_id,fingerprint" }
+      );
+
+    if (error) {
+      logger.error("Error recording observed items", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error recording observed items", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Mark items as reported to the user, so later runs filter them out
+ */
+export async function markItemsReported(
+  rule_id: string,
+  fingerprints: string[]
+): Promise<{ success: boolean; error: any }> {
+  if (!fingerprints.length) return { success: true, error: null };
+  try {
+    const { error } = await getSupabase()
+      .from("berry_rule_seen_items")
+      .update({ reported_at: new Date().toISOString() })
+      .eq("rule_id", rule_id)
+      .in("fingerprint", fingerprints);
+
+    if (error) {
+      logger.error("Error marking items reported", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error marking items reported", { error });
+    return { success: false, error };
+  }
+}
@@ -0,0 +1,209 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// A login session, recorded in berry_sessions. Only a hash of the refresh token is stored.
+export interface Session {
+  id?: string;
+  user_id: string;
+  refresh_token_hash: string;
+  // The token the last rotation replaced, kept so a reuse can be detected
+  previous_refresh_token_hash?: string | null;
+  created_at?: string;
+  expires_at: string;
+  revoked_at?: string | null;
+}
+
+/**
+ * Create a new session
+ */
+export async function createSession(
+  session: Pick<Session, "user_id" | "refresh_token_hash" | "expires_at">
+): Promise<{ data: Session | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_sessions")
+      .insert([session])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error("Error creating session", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error creating session", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a session by ID
+ */
+export async function getSessionById(
+  session_id: string
+): Promise<{ data: Session | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_sessions")
+      .select("*")
+      .eq("id", session_id)
+      .single();
+
+    if (error) {
+      logger.error("Error fetching session", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching session", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a session by the hash of its current refresh token
+ */
+export async function getSessionByRefreshTokenHash(
+  refresh_token_hash: string
+): Promise<{ data: Session | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_sessions")
+      .select("*")
+      .eq("refresh_token_hash", refresh_token_hash)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching session by refresh token", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching session by refresh token", {
+      error,
+    });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a session by the hash of the refresh token its last rotation replaced
+ */
+export async function getSessionByPreviousRefreshTokenHash(
+  previous_refresh_token_hash: string
+): Promise<{ data: Session | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_sessions")
+      .select("*")
+      .eq("previous_refresh_token_hash", previous_refresh_token_hash)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching session by previous refresh token", {
+        error,
+      });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error(
+      "Unexpected error fetching session by previous refresh token",
+      {
+        error,
+      }
+    );
+    return { data: null, error };
+  }
+}
+
+/**
+ * Replace a session's refresh token (rotation) and extend its expiry. Only applies
+ * while the session still holds the old token, so of two concurrent rotations with
+ * the same token one gets no row back.
+ */
+export async function rotateSessionRefreshToken(
+  session_id: string,
+  old_refresh_token_hash: string,
+  refresh_token_hash: string,
+  expires_at: string
+): Promise<{ data: Session | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_sessions")
+      .update({
+        refresh_token_hash,
+        previous_refresh_token_hash: old_refresh_token_hash,
+        expires_at,
+      })
+      .eq("id", session_id)
+      .eq("refresh_token_hash", old_refresh_token_hash)
+      .is("revoked_at", null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error rotating session refresh token", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error rotating session refresh token", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Revoke a session so neither its access nor refresh tokens are accepted
+ */
+export async function revokeSession(
+  session_id: string
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_sessions")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", session_id);
+
+    if (error) {
+      logger.error("Error revoking session", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error revoking session", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Revoke every open session of a user
+ */
+export async function revokeUserSessions(
+  user_id: string
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_sessions")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("user_id", user_id)
+      .is("revoked_at", null);
+
+    if (error) {
+      logger.error("Error revoking user sessions", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error revoking user sessions", { error });
+    return { success: false, error };
+  }
+}
@@ -0,0 +1,112 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// What an LLM call was made for
+export type UsagePurpose = "execution" | "generation" | "preview";
+
+// Token usage and estimated cost of one LLM call, recorded in berry_usage_events
+export interface UsageEvent {
+  id?: string;
+  user_id: string;
+  rule_id?: string | null;
+  run_id?: string | null;
+  purpose: UsagePurpose;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  // null when the model has no known price
+  cost_usd: number | null;
+  created_at?: string;
+}
+
+// PostgREST caps rows per request, so totals are summed a page at a time
+const PAGE_SIZE = 1000;
+
+/**
+ * Record usage events
+ */
+export async function recordUsageEvents(
+  events: Omit<UsageEvent, "id" | "created_at">[]
+): Promise<{ success: boolean; error: any }> {
+  if (!events.length) return { success: true, error: null };
+  try {
+    const { error } = await getSupabase()
+      .from("berry_usage_events")
+      .insert(events);
+
+    if (error) {
+      logger.error("Error recording usage", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error recording usage", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Total estimated cost in USD of a user's usage events since a point in time,
+ * summed in the database (unpriced events count as 0) by the
+ * berry_usage_spend_since function from the usage events migration.
+ */
+export async function getSpendSince(
+  user_id: string,
+  since: string
+): Promise<{ data: number | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase().rpc("berry_usage_spend_since", {
+      p_user_id: user_id,
+      p_since: since,
+    });
+
+    if (error) {
+      logger.error("Error fetching spend", { error });
+      return { data: null, error };
+    }
+
+    return { data: Number(data ?? 0), error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching spend", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a user's usage events since a point in time, oldest first
+ */
+export async function getUsageEventsSince(
+  user_id: string,
+  since: string
+): Promise<{ data: UsageEvent[] | null; error: any }> {
+  try {
+    const events: UsageEvent[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await getSupabase()
+        .from("berry_usage_events")
+        .select(
+          "user_id, rule_id, purpose, provider, model, input_tokens, output_tokens, total_tokens, cost_usd, created_at"
+        )
+        .eq("user_id", user_id)
+        .gte("created_at", since)
+        .order("created_at", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error("Error fetching usage", { error });
+        return { data: null, error };
+      }
+
+      events.push(...((data ?? []) as UsageEvent[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return { data: events, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching usage", { error });
+    return { data: null, error };
+  }
+}
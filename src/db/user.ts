@@ -0,0 +1,264 @@
+import { logger } from "../logger.js";
+import { getSupabase } from "./client.js";
+
+// The fields of a berry_users row needed to sign a user in. Login codes are stored
+// as an HMAC (login_code_hash); login_code only remains on rows not yet migrated
+// by the hashLoginCodes script.
+export interface LoginUser {
+  id: string;
+  name: string;
+  created_at: string;
+  // Set while an admin has disabled the user
+  disabled_at: string | null;
+  login_code_hash: string | null;
+}
+
+// A user whose login code is still stored in plain text
+export interface LegacyLoginCode {
+  id: string;
+  login_code: string;
+}
+
+// A user as listed by the admin API, with how many rules and notifications they have
+export interface AdminUser {
+  id: string;
+  name: string;
+  created_at: string;
+  disabled_at: string | null;
+  rule_count: number;
+  notification_count: number;
+}
+
+export interface UserPage {
+  users: AdminUser[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Per-user overrides of the default quotas, stored on berry_users (null = default)
+export interface UserLimitOverrides {
+  max_rules: number | null;
+  min_interval_minutes: number | null;
+  monthly_spend_limit_usd: number | null;
+}
+
+/**
+ * Get a user's quota overrides
+ */
+export async function getUserLimitOverrides(
+  user_id: string
+): Promise<{ data: UserLimitOverrides | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_users")
+      .select("max_rules, min_interval_minutes, monthly_spend_limit_usd")
+      .eq("id", user_id)
+      .single();
+
+    if (error) {
+      logger.error("Error fetching user limits", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching user limits", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get the user whose login code has the given hash
+ */
+export async function getUserByLoginCodeHash(
+  login_code_hash: string
+): Promise<{ data: LoginUser | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_users")
+      .select("id, name, created_at, disabled_at, login_code_hash")
+      .eq("login_code_hash", login_code_hash)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching user by login code", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching user by login code", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get up to limit users whose login code is still stored in plain text
+ */
+export async function getLegacyLoginCodes(
+  limit: number
+): Promise<{ data: LegacyLoginCode[] | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_users")
+      .select("id, login_code")
+      .is("login_code_hash", null)
+      .not("login_code", "is", null)
+      .order("id", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error("Error fetching legacy login codes", { error });
+      return { data: null, error };
+    }
+
+    return { data: data ?? [], error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching legacy login codes", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Store the hash of a user's login code, clearing the plain text one
+ */
+export async function setLoginCodeHash(
+  user_id: string,
+  login_code_hash: string
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_users")
+      .update({ login_code_hash, login_code: null })
+      .eq("id", user_id);
+
+    if (error) {
+      logger.error("Error storing login code hash", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error storing login code hash", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Create a user with the hash of their login code
+ */
+export async function createUser(
+  name: string,
+  login_code_hash: string
+): Promise<{ data: LoginUser | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_users")
+      .insert([{ name, login_code_hash }])
+      .select("id, name, created_at, disabled_at, login_code_hash")
+      .single();
+
+    if (error) {
+      logger.error("Error creating user", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error creating user", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get a user by ID, or null if there is none
+ */
+export async function getUserById(
+  user_id: string
+): Promise<{ data: LoginUser | null; error: any }> {
+  try {
+    const { data, error } = await getSupabase()
+      .from("berry_users")
+      .select("id, name, created_at, disabled_at, login_code_hash")
+      .eq("id", user_id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error("Error fetching user", { error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    logger.error("Unexpected error fetching user", { error });
+    return { data: null, error };
+  }
+}
+
+/**
+ * Disable a user (disabled_at set) or enable them again (null)
+ */
+export async function setUserDisabledAt(
+  user_id: string,
+  disabled_at: string | null
+): Promise<{ success: boolean; error: any }> {
+  try {
+    const { error } = await getSupabase()
+      .from("berry_users")
+      .update({ disabled_at })
+      .eq("id", user_id);
+
+    if (error) {
+      logger.error("Error updating user status", { error });
+      return { success: false, error };
+    }
+
+    return { success: true, error: null };
+  } catch (error) {
+    logger.error("Unexpected error updating user status", { error });
+    return { success: false, error };
+  }
+}
+
+/**
+ * Get a page of users, oldest first, with their rule and notification counts
+ */
+export async function getUsersPage(
+  limit: number,
+  offset: number
+): Promise<{ data: UserPage | null; error: any }> {
+  try {
+    const { data, error, count } = await getSupabase()
+      .from("berry_users")
+      .select(
+        "id, name, created_at, disabled_at, berry_rules(count), berry_notifications(count)",
+        { count: "exact" }
+      )
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error("Error fetching users", { error });
+      return { data: null, error };
+    }
+
+    const users = (data ?? []).map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      created_at: row.created_at,
+      disabled_at: row.disabled_at,
+      // Embedded aggregates come back as [{ count }]
+      rule_count: row.berry_rules?.[0]?.count ?? 0,
+      notification_count: row.berry_notifications?.[0]?.count ?? 0,
+    }));
+
+    return {
+      data: { users, total: count ?? users.length, limit, offset },
+      error: null,
+    };
+  } catch (error) {
+    logger.error("Unexpected error fetching users", { error });
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,129 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import { db } from "./db/repositories.js";
+import { fingerprintItem, normalizeUrl, type ResultItem } from "./items.js";
+import { notificationService } from "./services/notificationService.js";
+import { ruleService } from "./services/ruleService.js";
+import { createTestRule, itemsResult, queueAnswers } from "./testRules.js";
+
+const item = (fields: Partial<ResultItem>): ResultItem => ({
+  title: "3BR house",
+  url: "",
+  fields: {},
+  ...fields,
+});
+
+async function execute(ruleId: string) {
+  return ruleService.handleExecute({ body: { ruleId, trigger: "manual" } });
+}
+
+// Titles of the items in each of the user's notifications, oldest first
+async function notifiedTitles(userId: string): Promise<string[][]> {
+  const { data } = await notificationService.getNotificationsByUserId(userId, {
+    limit: 100,
+  });
+  return data!.notifications
+    .reverse()
+    .map((notification) =>
+      notification.payload.items.map((item: ResultItem) => item.title)
+    );
+}
+
+describe("item fingerprints", () => {
+  it("identifies a linked item by its normalized URL", () => {
+    const url = "https://www.example.com/listing/42/";
+    for (const variant of [
+      "https://example.com/listing/42",
+      "https://WWW.Example.com/listing/42#photos",
+      "https://example.com/listing/42?utm_source=mail&fbclid=abc",
+    ]) {
+      assert.equal(
+        fingerprintItem(item({ url: variant, title: "Reworded title" })),
+        fingerprintItem(item({ url })),
+        variant
+      );
+    }
+    assert.notEqual(
+      fingerprintItem(item({ url: "https://example.com/listing/43" })),
+      fingerprintItem(item({ url }))
+    );
+  });
+
+  it("keeps query parameters that identify the page", () => {
+    assert.equal(
+      normalizeUrl("https://example.com/item?b=2&a=1&utm_medium=x"),
+      "example.com/item?a=1&b=2"
+    );
+    assert.equal(normalizeUrl("ftp://example.com/item"), null);
+    assert.equal(normalizeUrl("not a url"), null);
+  });
+
+  it("identifies an unlinked item by its title and fields", () => {
+    const listing = item({ fields: { price: 1_000_000, city: "Palo Alto" } });
+    assert.equal(
+      fingerprintItem(
+        item({
+          title: "  3br   HOUSE ",
+          fields: { city: "palo alto", price: 1_000_000 },
+        })
+      ),
+      fingerprintItem(listing)
+    );
+    assert.notEqual(
+      fingerprintItem(item({ fields: { price: 900_000, city: "Palo Alto" } })),
+      fingerprintItem(listing)
+    );
+  });
+});
+
+describe("deduplication across runs", () => {
+  const first = { title: "12 Oak St", url: "https://example.com/12-oak" };
+  const second = { title: "7 Elm St", url: "https://example.com/7-elm" };
+  const third = { title: "3 Pine St", url: "https://example.com/3-pine" };
+
+  it("only notifies about items no earlier run reported", async () => {
+    const rule = await createTestRule();
+    queueAnswers(
+      itemsResult([first, second]),
+      itemsResult([
+        { ...first, url: `${first.url}?utm_source=feed` },
+        { ...second, title: "7 Elm Street" },
+      ]),
+      itemsResult([first, third, third])
+    );
+
+    for (let run = 0; run < 3; run++) {
+      assert.equal((await execute(rule.id!)).status, 200);
+    }
+    assert.deepEqual(await notifiedTitles(rule.user_id), [
+      ["12 Oak St", "7 Elm St"],
+      ["3 Pine St"],
+    ]);
+
+    const { data } = await db.runs.getRunsByRuleId(rule.id!, 10, 0);
+    assert.deepEqual(
+      data!.runs.map((run) => run.notified),
+      [true, false, true]
+    );
+  });
+
+  it("reports the items again after a failed notification", async () => {
+    const rule = await createTestRule();
+    queueAnswers(itemsResult([first]), itemsResult([first]));
+
+    const failure = mock.method(notificationService, "createNotification", () =>
+      Promise.resolve({ data: null, error: { message: "insert failed" } })
+    );
+    const failed = await execute(rule.id!);
+    failure.mock.restore();
+    assert.equal(failed.status, 500);
+    assert.deepEqual(await notifiedTitles(rule.user_id), []);
+
+    const { data: stored } = await db.rules.getRuleById(rule.id!);
+    assert.deepEqual(stored!.history, []);
+
+    assert.equal((await execute(rule.id!)).status, 200);
+    assert.deepEqual(await notifiedTitles(rule.user_id), [["12 Oak St"]]);
+  });
+});
@@ -0,0 +1,81 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { describe, it } from "node:test";
+import { db } from "./db/repositories.js";
+import type { DeliveryChannel } from "./services/deliveryChannels.js";
+import { deliveryService } from "./services/deliveryService.js";
+import { notificationService } from "./services/notificationService.js";
+
+// Stands in for SMTP: fails until told to succeed
+const sent: number[] = [];
+let failing = true;
+const emailChannel: DeliveryChannel = {
+  name: "email",
+  isConfigured: () => true,
+  isEnabled: (preferences) => Boolean(preferences.email_enabled),
+  async send(notification) {
+    if (failing) throw new Error("SMTP unavailable");
+    sent.push(notification.id!);
+  },
+};
+deliveryService.registerChannel(emailChannel);
+
+// A user with email on whose first delivery failed, due for a retry now
+async function failedDelivery() {
+  const userId = randomUUID();
+  await deliveryService.updatePreferences(userId, null, {
+    email_enabled: true,
+    email_address: "user@example.com",
+  });
+  const { data: notification } = await notificationService.createNotification(
+    userId,
+    randomUUID(),
+    { result: "New listing" }
+  );
+  failing = true;
+  const [delivery] = await deliveryService.deliver(notification!);
+  assert.equal(delivery.status, "failed");
+  await db.deliveries.updateDelivery(delivery.id!, {
+    next_attempt_at: new Date(Date.now() - 1000).toISOString(),
+  });
+  return { userId, notification: notification!, delivery };
+}
+
+describe("delivery retries", () => {
+  it("retries due deliveries until one succeeds", async () => {
+    const { userId, notification } = await failedDelivery();
+
+    failing = false;
+    const { data } = await deliveryService.retryFailedDeliveries(userId);
+    assert.deepEqual(data, { retried: 1, sent: 1 });
+    assert.ok(sent.includes(notification.id!));
+
+    const { data: deliveries } = await deliveryService.getDeliveries(
+      notification.id!
+    );
+    assert.equal(deliveries![0].status, "sent");
+    assert.equal(deliveries![0].attempts, 2);
+  });
+
+  it("drops deliveries over a channel the user has turned off", async () => {
+    const { userId, notification } = await failedDelivery();
+    await deliveryService.updatePreferences(userId, null, {
+      email_enabled: false,
+    });
+
+    failing = false;
+    const { data } = await deliveryService.retryFailedDeliveries(userId);
+    assert.deepEqual(data, { retried: 0, sent: 0 });
+    assert.ok(!sent.includes(notification.id!));
+
+    const { data: deliveries } = await deliveryService.getDeliveries(
+      notification.id!
+    );
+    assert.equal(deliveries![0].next_attempt_at, null);
+    assert.equal(
+      (await deliveryService.retryFailedDeliveries(userId)).data?.retried,
+      0
+    );
+  });
+});
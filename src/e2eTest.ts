@@ -0,0 +1,394 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { type AddressInfo, createServer } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  type FakeQStash,
+  type FakeSchedule,
+  signDelivery,
+  startFakeQStash,
+} from "./fakeQStash.js";
+
+/**
+ * End-to-end rule lifecycle (create -> execute -> notify -> delete) against the
+ * real app, with in-memory storage, the in-process scheduler and LLM responses
+ * replayed from fixtures/, so it needs no network, database or API keys.
+ * With --qstash (npm run test:e2e:qstash) the app schedules and publishes through
+ * QStashService instead, against the fake QStash API in fakeQStash.ts, which
+ * delivers signed messages back to /rule/execute.
+ * Re-record the fixtures after changing a prompt with:
+ *   LLM_FIXTURES=record OPENAI_API_KEY=... npm run test:e2e
+ */
+
+const USE_QSTASH = process.argv.includes("--qstash");
+const QSTASH_TOKEN = "e2e-qstash-token";
+const QSTASH_SIGNING_KEY = "e2e-signing-key";
+
+// Must be set before the app is imported: storage and scheduler are chosen at load
+process.env.STORAGE_BACKEND = "memory";
+process.env.SCHEDULER_BACKEND = USE_QSTASH ? "qstash" : "local";
+process.env.LOCAL_SCHEDULER_FILE = path.join(
+  os.tmpdir(),
+  `berry-e2e-schedules-${process.pid}.json`
+);
+process.env.LLM_FIXTURES ??= "replay";
+process.env.LLM_FIXTURES_DIR ??= "fixtures";
+process.env.OPENAI_API_KEY ??= "fixture-replay";
+process.env.ADMIN_API_KEY = "e2e-admin-key";
+process.env.AUTH_TOKEN_SECRET = "e2e-token-secret";
+// Stops index.ts from listening on PORT; the suite listens on a random port
+process.env.NODE_ENV = "production";
+
+const RULE_PROMPT =
+  "Let me know about new 3-bedroom houses for sale in Palo Alto under $3M";
+const EXECUTION_TIMEOUT_MS = 30_000;
+
+let server: ReturnType<typeof import("./index.js")["default"]["listen"]>;
+let baseUrl: string;
+let fakeQStash: FakeQStash | undefined;
+
+// A port nothing listens on, so the app's address is known before it loads
+async function freePort(): Promise<number> {
+  const probe = createServer().listen(0);
+  await once(probe, "listening");
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+async function request(
+  method: string,
+  route: string,
+  { token, body }: { token?: string; body?: unknown } = {}
+): Promise<{ status: number; body: any }> {
+  const response = await fetch(baseUrl + route, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return {
+    status: response.status,
+    body: await response.json().catch(() => null),
+  };
+}
+
+async function waitFor<T>(
+  description: string,
+  check: () => Promise<T | undefined>
+): Promise<T> {
+  const deadline = Date.now() + EXECUTION_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value !== undefined) return value;
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  throw new Error(`Timed out waiting for ${description}`);
+}
+
+// The rule a fake QStash schedule executes; job schedules have no body
+function scheduledRuleId(schedule: FakeSchedule): string | undefined {
+  return schedule.body ? JSON.parse(schedule.body).ruleId : undefined;
+}
+
+describe("rule lifecycle", () => {
+  let loginCode: string;
+  let accessToken: string;
+  let ruleId: string;
+
+  before(async () => {
+    let port = 0;
+    if (USE_QSTASH) {
+      fakeQStash = await startFakeQStash({
+        token: QSTASH_TOKEN,
+        signingKey: QSTASH_SIGNING_KEY,
+      });
+      // QStash delivers to QSTASH_DESTINATION_BASE_URL, which is read at load
+      port = await freePort();
+      Object.assign(process.env, {
+        QSTASH_URL: fakeQStash.url,
+        QSTASH_TOKEN,
+        QSTASH_CURRENT_SIGNING_KEY: QSTASH_SIGNING_KEY,
+        QSTASH_NEXT_SIGNING_KEY: QSTASH_SIGNING_KEY,
+        QSTASH_DESTINATION_BASE_URL: `http://localhost:${port}`,
+      });
+    }
+
+    const { default: app } = await import("./index.js");
+    server = app.listen(port);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    const created = await request("POST", "/admin/users", {
+      token: process.env.ADMIN_API_KEY,
+      body: { name: "E2E User" },
+    });
+    assert.equal(created.status, 201);
+    loginCode = created.body.loginCode;
+
+    const login = await request("POST", "/auth/verify", {
+      body: { loginCode },
+    });
+    assert.equal(login.status, 200);
+    accessToken = login.body.session.accessToken;
+  });
+
+  after(async () => {
+    server?.close();
+    await fakeQStash?.close();
+  });
+
+  it("rejects a model the provider does not list", async () => {
+    const { status, body } = await request("POST", "/rule", {
+      token: accessToken,
+      body: { textPrompt: RULE_PROMPT, model: "gpt-unknown" },
+    });
+    assert.equal(status, 400);
+    assert.match(body.error, /Unknown model/);
+  });
+
+  it("creates a rule from a text prompt", async () => {
+    const { status, body } = await request("POST", "/rule", {
+      token: accessToken,
+      body: { textPrompt: RULE_PROMPT },
+    });
+    assert.equal(status, 201, JSON.stringify(body));
+    assert.ok(body.rule.id);
+    assert.ok(body.rule.prompt);
+    ruleId = body.rule.id;
+  });
+
+  it("executes the rule right after creation", async () => {
+    const run = await waitFor("the first run to finish", async () => {
+      const { body } = await request("GET", `/rule/${ruleId}/runs`, {
+        token: accessToken,
+      });
+      return body?.runs?.find((run: any) => run.status !== "running");
+    });
+    assert.equal(run.status, "succeeded", JSON.stringify(run));
+    assert.equal(run.notified, true);
+  });
+
+  it("schedules the rule on QStash", { skip: !USE_QSTASH }, () => {
+    const destination = `${baseUrl}/rule/execute`;
+    const schedule = [...fakeQStash!.schedules.values()].find(
+      (schedule) => scheduledRuleId(schedule) === ruleId
+    );
+    assert.ok(schedule, "expected a schedule for the rule");
+    assert.equal(schedule.destination, destination);
+
+    // The immediate run came through a signed publish
+    const delivery = fakeQStash!.deliveries.find(
+      (delivery) => JSON.parse(delivery.body).ruleId === ruleId
+    );
+    assert.equal(delivery?.destination, destination);
+    assert.equal(delivery?.status, 200);
+  });
+
+  it(
+    "schedules retries of failed deliveries",
+    { skip: !USE_QSTASH },
+    async () => {
+      const destination = `${baseUrl}/notifications/deliveries/retry-due`;
+      const job = fakeQStash!.schedules.get("berry-job-retry-deliveries");
+      assert.equal(job?.destination, destination);
+
+      const unsigned = await fetch(destination, { method: "POST" });
+      assert.equal(unsigned.status, 401);
+
+      const signed = await fetch(destination, {
+        method: "POST",
+        headers: {
+          "Upstash-Signature": signDelivery(
+            QSTASH_SIGNING_KEY,
+            destination,
+            ""
+          ),
+        },
+      });
+      assert.equal(signed.status, 200);
+      assert.deepEqual(await signed.json(), { retried: 0, sent: 0 });
+    }
+  );
+
+  it("rejects a delivery signed with another key", async () => {
+    const destination = `${baseUrl}/rule/execute`;
+    const body = JSON.stringify({ ruleId, trigger: "schedule" });
+    const response = await fetch(destination, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Upstash-Signature": signDelivery("forged-key", destination, body),
+      },
+      body,
+    });
+    assert.ok(response.status >= 400, `got ${response.status}`);
+  });
+
+  it("notifies the user of the results", async () => {
+    const { status, body } = await request("GET", "/notifications", {
+      token: accessToken,
+    });
+    assert.equal(status, 200);
+    const notification = body.notifications.find(
+      (notification: any) => notification.rule_id === ruleId
+    );
+    assert.ok(notification, "expected a notification for the rule");
+    assert.ok(notification.payload.result);
+  });
+
+  it("rejects a schema change that orphans a condition", async () => {
+    const withPrice = await request("PATCH", `/rule/${ruleId}`, {
+      token: accessToken,
+      body: {
+        itemSchema: {
+          name: "listing",
+          fields: [{ name: "price", type: "number" }],
+        },
+        conditions: [
+          { type: "threshold", field: "price", operator: "lt", value: 3e6 },
+        ],
+      },
+    });
+    assert.equal(withPrice.status, 200, JSON.stringify(withPrice.body));
+
+    const withoutPrice = await request("PATCH", `/rule/${ruleId}`, {
+      token: accessToken,
+      body: {
+        itemSchema: {
+          name: "listing",
+          fields: [{ name: "bedrooms", type: "number" }],
+        },
+      },
+    });
+    assert.equal(withoutPrice.status, 400);
+    assert.match(withoutPrice.body.error, /unknown field price/);
+  });
+
+  it("deletes the rule", async () => {
+    const deleted = await request("DELETE", `/rule/${ruleId}`, {
+      token: accessToken,
+    });
+    assert.equal(deleted.status, 200);
+
+    const { body } = await request("GET", "/rule", { token: accessToken });
+    assert.ok(!body.some((rule: any) => rule.id === ruleId));
+
+    if (fakeQStash) {
+      assert.ok(
+        ![...fakeQStash.schedules.values()].some(
+          (schedule) => scheduledRuleId(schedule) === ruleId
+        ),
+        "expected the rule's schedule to be deleted"
+      );
+    }
+  });
+
+  it("exposes the lifecycle in /metrics", async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+    assert.equal(response.status, 200);
+    const metrics = await response.text();
+    assert.match(
+      metrics,
+      /berry_rule_executions_total\{outcome="succeeded",trigger="immediate"\} 1/
+    );
+    assert.match(metrics, /berry_notifications_created_total 1/);
+    assert.match(
+      metrics,
+      /berry_llm_tokens_total\{provider="openai",model="gpt-5",/
+    );
+    if (USE_QSTASH) {
+      assert.match(
+        metrics,
+        /berry_qstash_operations_total\{operation="publish",outcome="ok"\} 1/
+      );
+    }
+    assert.match(
+      metrics,
+      /berry_http_requests_total\{method="POST",route="\/rule",status="201"\} 1/
+    );
+  });
+
+  it("updates the default preferences in place", async () => {
+    const first = await request("PUT", "/notifications/preferences", {
+      token: accessToken,
+      body: { email_enabled: true, email_address: "e2e@example.com" },
+    });
+    assert.equal(first.status, 200);
+    const second = await request("PUT", "/notifications/preferences", {
+      token: accessToken,
+      body: { email_enabled: false },
+    });
+    assert.equal(second.status, 200);
+
+    const { body } = await request("GET", "/notifications/preferences", {
+      token: accessToken,
+    });
+    assert.equal(body.user.id, first.body.id);
+    assert.equal(body.user.email_enabled, false);
+    assert.equal(body.user.email_address, "e2e@example.com");
+  });
+
+  it("rejects invalid preferences and private webhook hosts", async () => {
+    for (const body of [
+      { webhook_url: "http://169.254.169.254/latest/meta-data" },
+      { webhook_url: "http://localhost:3000/hook" },
+      { email_address: "not-an-email" },
+      { push_enabled: "yes" },
+    ]) {
+      const { status } = await request("PUT", "/notifications/preferences", {
+        token: accessToken,
+        body,
+      });
+      assert.equal(status, 400, JSON.stringify(body));
+    }
+  });
+
+  it("revokes a session when a rotated-out refresh token is reused", async () => {
+    const login = await request("POST", "/auth/verify", {
+      body: { loginCode },
+    });
+    const { refreshToken } = login.body.session;
+
+    const refreshed = await request("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+    assert.equal(refreshed.status, 200);
+
+    const reused = await request("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+    assert.equal(reused.status, 401);
+
+    const afterReuse = await request("POST", "/auth/refresh", {
+      body: { refreshToken: refreshed.body.session.refreshToken },
+    });
+    assert.equal(afterReuse.status, 401);
+  });
+
+  it("keeps counting an IP's failed logins across successful ones", async () => {
+    // Its own client IP (the app trusts one proxy hop), so other tests are not locked out
+    const verify = async (code: string) =>
+      (
+        await fetch(`${baseUrl}/auth/verify`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Forwarded-For": "203.0.113.7",
+          },
+          body: JSON.stringify({ loginCode: code }),
+        })
+      ).status;
+
+    for (let guess = 0; guess < 9; guess++) {
+      assert.equal(await verify(`wrong-code-${guess}`), 404);
+    }
+    assert.equal(await verify(loginCode), 200);
+    assert.equal(await verify("wrong-code-9"), 404);
+    assert.equal(await verify(loginCode), 429);
+  });
+});
@@ -0,0 +1,175 @@
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { Request, Response } from "express";
+
+/**
+ * In-process stand-in for the QStash API, for running the e2e suite against
+ * SCHEDULER_BACKEND=qstash without network access. It answers the schedule, publish
+ * and DLQ calls QStashService makes, and delivers each published message to its
+ * destination signed the way QStash signs them, so the app's signature check and
+ * message-id handling run for real. Schedules are stored but never fired.
+ */
+
+export interface FakeSchedule {
+  scheduleId: string;
+  destination: string;
+  cron: string;
+  body: string;
+  isPaused: boolean;
+  createdAt: number;
+}
+
+export interface FakeDelivery {
+  messageId: string;
+  destination: string;
+  body: string;
+  // Status the destination answered with; 0 when it could not be reached
+  status: number;
+}
+
+export interface FakeQStash {
+  url: string;
+  schedules: Map<string, FakeSchedule>;
+  deliveries: FakeDelivery[];
+  close(): Promise<void>;
+}
+
+const base64url = (data: Buffer | string) =>
+  Buffer.from(data).toString("base64url");
+
+/**
+ * The Upstash-Signature header QStash sends: an HS256 JWT over the destination URL
+ * and the SHA-256 of the body, signed with the current signing key.
+ */
+export function signDelivery(
+  signingKey: string,
+  destination: string,
+  body: string
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      iss: "Upstash",
+      sub: destination,
+      iat: now,
+      nbf: now,
+      exp: now + 300,
+      jti: randomUUID(),
+      body: base64url(createHash("sha256").update(body).digest()),
+    })
+  );
+  const signature = createHmac("sha256", signingKey)
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+export async function startFakeQStash(options: {
+  token: string;
+  signingKey: string;
+}): Promise<FakeQStash> {
+  const schedules = new Map<string, FakeSchedule>();
+  const deliveries: FakeDelivery[] = [];
+  const app = express();
+  app.use(express.text({ type: () => true }));
+
+  app.use((req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${options.token}`) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    return next();
+  });
+
+  // Destinations are full URLs appended to the path, e.g. /v2/publish/http://host/x
+  const destinationOf = (req: Request, prefix: string) =>
+    req.originalUrl.slice(prefix.length);
+
+  const findSchedule = (req: Request, res: Response) => {
+    const schedule = schedules.get(req.params.scheduleId);
+    if (!schedule) res.status(404).json({ error: "schedule not found" });
+    return schedule;
+  };
+
+  async function deliver(messageId: string, destination: string, body: string) {
+    const delivery: FakeDelivery = { messageId, destination, body, status: 0 };
+    deliveries.push(delivery);
+    try {
+      const response = await fetch(destination, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Upstash-Message-Id": messageId,
+          "Upstash-Retried": "0",
+          "Upstash-Signature": signDelivery(
+            options.signingKey,
+            destination,
+            body
+          ),
+        },
+        body,
+      });
+      delivery.status = response.status;
+    } catch {
+      delivery.status = 0;
+    }
+  }
+
+  // Upstash-Schedule-Id replaces the schedule with that id
+  app.post("/v2/schedules/*", (req, res) => {
+    const scheduleId =
+      String(req.headers["upstash-schedule-id"] ?? "") || `scd_${randomUUID()}`;
+    schedules.set(scheduleId, {
+      scheduleId,
+      destination: destinationOf(req, "/v2/schedules/"),
+      cron: String(req.headers["upstash-cron"] ?? ""),
+      body: req.body ?? "",
+      isPaused: false,
+      createdAt: Date.now(),
+    });
+    res.status(201).json({ scheduleId });
+  });
+
+  app.get("/v2/schedules/:scheduleId", (req, res) => {
+    const schedule = findSchedule(req, res);
+    if (schedule) res.json({ ...schedule, method: "POST" });
+  });
+
+  app.delete("/v2/schedules/:scheduleId", (req, res) => {
+    if (findSchedule(req, res)) {
+      schedules.delete(req.params.scheduleId);
+      res.status(200).end();
+    }
+  });
+
+  app.patch("/v2/schedules/:scheduleId/:action(pause|resume)", (req, res) => {
+    const schedule = findSchedule(req, res);
+    if (schedule) {
+      schedule.isPaused = req.params.action === "pause";
+      res.status(200).end();
+    }
+  });
+
+  app.post("/v2/publish/*", (req, res) => {
+    const messageId = `msg_${randomUUID()}`;
+    // Answer first and deliver afterwards, like the real queue
+    setImmediate(() =>
+      deliver(messageId, destinationOf(req, "/v2/publish/"), req.body ?? "")
+    );
+    res.status(201).json({ messageId });
+  });
+
+  app.get("/v2/dlq", (_req, res) => {
+    res.json({ messages: [] });
+  });
+
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  return {
+    url: `http://localhost:${(server.address() as AddressInfo).port}`,
+    schedules,
+    deliveries,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+
+/**
+ * Record/replay of external API calls (OpenAI, Perplexity, the computer-use loop)
+ * for deterministic tests. LLM_FIXTURES selects the mode:
+ * - unset: calls go to the live API
+ * - "record": calls go to the live API and each response is saved as a fixture
+ * - "replay": responses come from fixtures only; a missing fixture is an error
+ * Fixtures are JSON files under LLM_FIXTURES_DIR (default "fixtures"), named by
+ * namespace and a hash of the request, so any change to a prompt needs a new
+ * recording.
+ */
+
+// JSON with sorted object keys, so equal requests always hash the same
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === "object" && !Array.isArray(inner)
+      ? Object.fromEntries(
+          Object.keys(inner)
+            .sort()
+            .map((key) => [key, inner[key]])
+        )
+      : inner
+  );
+}
+
+function fixturePath(namespace: string, request: unknown): string {
+  const key = createHash("sha256")
+    .update(canonicalJson(request))
+    .digest("hex")
+    .slice(0, 16);
+  return path.resolve(config.llmFixturesDir, namespace, `${key}.json`);
+}
+
+function readFixture(file: string, namespace: string): any {
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No ${namespace} fixture for this request (${path.basename(
+        file
+      )}); record one with LLM_FIXTURES=record`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+async function writeFixture(file: string, contents: unknown) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(contents, null, 2) + "\n");
+}
+
+/**
+ * Run one API call through the fixture layer. request identifies the call (the
+ * body sent to the API); call performs it and resolves to the raw API response.
+ */
+export async function withFixture<T>(
+  namespace: string,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  const mode = config.llmFixtures;
+  if (mode === "live") return call();
+
+  const file = fixturePath(namespace, request);
+  if (mode === "replay") return readFixture(file, namespace).response;
+
+  const response = await call();
+  await writeFixture(file, {
+    recordedAt: new Date().toISOString(),
+    request,
+    response,
+  });
+  return response;
+}
+
+/**
+ * Ordered recording of a multi-step conversation whose later requests cannot be
+ * matched exactly (they carry screenshots and previous response ids). The whole
+ * sequence is keyed by the request that started it and replayed step by step.
+ */
+export interface FixtureSequence {
+  // True when responses come from a fixture, so side effects (a browser) can be skipped
+  replaying: boolean;
+  next<T>(call: () => Promise<T>): Promise<T>;
+  // Save the recorded steps (record mode only)
+  save(): Promise<void>;
+}
+
+export function fixtureSequence(
+  namespace: string,
+  request: unknown
+): FixtureSequence {
+  const mode = config.llmFixtures;
+  const file = fixturePath(namespace, request);
+  const responses: unknown[] =
+    mode === "replay" ? readFixture(file, namespace).responses : [];
+  let step = 0;
+
+  return {
+    replaying: mode === "replay",
+    async next<T>(call: () => Promise<T>): Promise<T> {
+      if (mode === "replay") {
+        if (step >= responses.length) {
+          throw new Error(
+            `${namespace} fixture ${path.basename(file)} has only ${
+              responses.length
+            } steps`
+          );
+        }
+        return responses[step++] as T;
+      }
+      const response = await call();
+      if (mode === "record") responses.push(response);
+      return response;
+    },
+    async save() {
+      if (mode !== "record") return;
+      await writeFixture(file, {
+        recordedAt: new Date().toISOString(),
+        request,
+        responses,
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { db } from "./db/repositories.js";
+import { authService } from "./services/authService.js";
+
+/**
+ * One-off migration: hash every login code still stored in plain text in
+ * berry_users, clearing the plain text. Sign-in only matches hashed codes, so run
+ * this before deploying that change, with the production LOGIN_CODE_SECRET (or
+ * AUTH_TOKEN_SECRET). Rows already hashed are left alone, so it can be re-run.
+ */
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  let migrated = 0;
+  try {
+    for (;;) {
+      // Each migrated row drops out of the query, so the first page is always next
+      const { data: batch, error } = await db.users.getLegacyLoginCodes(
+        BATCH_SIZE
+      );
+      if (error || !batch) throw error ?? new Error("No users returned");
+      if (!batch.length) break;
+
+      for (const user of batch) {
+        const { error: updateError } = await db.users.setLoginCodeHash(
+          user.id,
+          authService.hashLoginCode(user.login_code)
+        );
+        if (updateError) throw updateError;
+        migrated++;
+      }
+    }
+    console.log(`Hashed ${migrated} login code(s)`);
+  } catch (err) {
+    console.error(`Stopped after hashing ${migrated} login code(s):`, err);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,146 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import { fileURLToPath } from "node:url";
+import { after, before, describe, it, mock } from "node:test";
+import express from "express";
+import { config } from "./config.js";
+import { healthRouter } from "./healthRouter.js";
+import { healthService } from "./services/healthService.js";
+import { scheduler } from "./services/schedulerService.js";
+
+// Mirrors healthService's CHECK_TIMEOUT_MS
+const CHECK_TIMEOUT_MS = 5_000;
+
+let server: ReturnType<ReturnType<typeof express>["listen"]>;
+let baseUrl: string;
+
+async function get(path: string) {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+describe("health endpoints", () => {
+  before(async () => {
+    const app = express();
+    app.use(healthRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("reports the process alive on /healthz", async () => {
+    const { status, body } = await get("/healthz");
+    assert.equal(status, 200);
+    assert.equal(body.status, "ok");
+    assert.equal(typeof body.uptimeSeconds, "number");
+  });
+
+  it("is ready when every required dependency is", async () => {
+    const { status, body } = await get("/readyz");
+    assert.equal(status, 200, JSON.stringify(body));
+    assert.equal(body.status, "ready");
+    for (const name of ["database", "scheduler", "openai"]) {
+      assert.equal(body.checks[name].status, "ok", name);
+      assert.equal(body.checks[name].required, true, name);
+      assert.equal(typeof body.checks[name].durationMs, "number", name);
+    }
+    assert.equal(body.checks.perplexity.required, false);
+    assert.equal(body.checks.browser.required, false);
+  });
+
+  it("answers 503 with the failing check when a required one fails", async () => {
+    const check = mock.method(scheduler, "checkConnection", async () => ({
+      success: false,
+      error: new Error("QStash token expired"),
+    }));
+    const { status, body } = await get("/readyz");
+    check.mock.restore();
+    assert.equal(status, 503);
+    assert.equal(body.status, "not_ready");
+    assert.equal(body.checks.scheduler.status, "failed");
+    assert.equal(body.checks.scheduler.detail, "QStash token expired");
+    assert.equal(body.checks.database.status, "ok");
+  });
+
+  it("stays ready when only an optional check fails", async () => {
+    const { llmFixtures, perplexityApiKey } = config;
+    config.llmFixtures = "live";
+    config.perplexityApiKey = undefined;
+    try {
+      const { status, body } = await get("/readyz");
+      assert.equal(status, 200);
+      assert.equal(body.checks.perplexity.status, "failed");
+      assert.equal(
+        body.checks.perplexity.detail,
+        "PERPLEXITY_API_KEY is not set"
+      );
+      assert.equal(body.checks.openai.status, "ok");
+    } finally {
+      Object.assign(config, { llmFixtures, perplexityApiKey });
+    }
+  });
+});
+
+describe("readiness checks", () => {
+  it("fail a check that does not answer in time", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    const check = mock.method(
+      scheduler,
+      "checkConnection",
+      () => new Promise(() => {})
+    );
+    try {
+      const readiness = healthService.getReadiness();
+      mock.timers.tick(CHECK_TIMEOUT_MS);
+      const { ready, checks } = await readiness;
+      assert.equal(ready, false);
+      assert.equal(checks.scheduler.status, "failed");
+      assert.equal(
+        checks.scheduler.detail,
+        `Timed out after ${CHECK_TIMEOUT_MS}ms`
+      );
+      assert.equal(checks.database.status, "ok");
+    } finally {
+      check.mock.restore();
+      mock.timers.reset();
+    }
+  });
+});
+
+describe("config validation", () => {
+  it("lists every missing or invalid variable at startup", () => {
+    // A fresh process, since config is read once at load; run outside the repo so
+    // no .env file fills the gaps
+    const { status, stderr } = spawnSync(
+      process.execPath,
+      [
+        "--import",
+        import.meta.resolve("tsx"),
+        fileURLToPath(new URL("./validateConfig.ts", import.meta.url)),
+      ],
+      {
+        cwd: os.tmpdir(),
+        env: { PATH: process.env.PATH, LOG_LEVEL: "loud" },
+        encoding: "utf8",
+        timeout: 60_000,
+      }
+    );
+    assert.notEqual(status, 0);
+    for (const problem of [
+      "SUPABASE_URL: missing (required for STORAGE_BACKEND=supabase)",
+      "QSTASH_TOKEN: missing (required for SCHEDULER_BACKEND=qstash)",
+      "OPENAI_API_KEY: missing",
+      "AUTH_TOKEN_SECRET: missing",
+      "LOG_LEVEL: unsupported value loud",
+    ]) {
+      assert.ok(stderr.includes(problem), problem);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { healthService } from "./services/healthService.js";
+
+const healthRouter = express.Router();
+
+// GET /healthz - Liveness: the process is up and serving requests
+healthRouter.get("/healthz", (_req: Request, res: Response) => {
+  return res.status(200).json({
+    status: "ok",
+    uptimeSeconds: Math.round(process.uptime()),
+  });
+});
+
+// GET /readyz - Readiness: every required dependency is reachable. Responds 503
+// with the same per-check report when one is not.
+healthRouter.get("/readyz", async (_req: Request, res: Response) => {
+  const { ready, checks } = await healthService.getReadiness();
+  return res
+    .status(ready ? 200 : 503)
+    .json({ status: ready ? "ready" : "not_ready", checks });
+});
+
+export { healthRouter };
@@ -1,11 +1,25 @@
+import "./validateConfig.js";
 import express from "express";
 import type { Request, Response } from "express";
+import { config } from "./config.js";
+import { adminRouter } from "./adminRouter.js";
 import { ruleRouter } from "./ruleRouter.js";
 import { notificationRouter } from "./notificationRouter.js";
 import { authRouter } from "./authRouter.js";
+import { healthRouter } from "./healthRouter.js";
+import { logger } from "./logger.js";
+import { httpMetrics } from "./metrics.js";
+import { metricsRouter } from "./metricsRouter.js";
+import { requestLogger } from "./requestLogger.js";
+import { deliveryService } from "./services/deliveryService.js";
+import { usageRouter } from "./usageRouter.js";
 
 const app = express();
-const PORT = process.env.PORT;
+const PORT = config.port;
+
+// Behind one proxy hop (the hosting platform), so req.ip is the client's address
+// as the proxy saw it rather than a spoofable X-Forwarded-For entry
+app.set("trust proxy", 1);
 
 // Middleware to parse JSON bodies and preserve raw body for QStash signature verification
 app.use(
@@ -16,21 +30,27 @@ app.use(
   })
 );
 
-app.use((req: Request, _res: Response, next) => {
-  console.log(`${req.method} - ${req.url}`);
-  next();
-});
+// After the body parser, whose stream callbacks would not keep the request's context
+app.use(requestLogger);
+app.use(httpMetrics);
 
 app.get("/", (_req: Request, res: Response) => {
   res.send("Hello world");
 });
+app.use(healthRouter);
+app.use(metricsRouter);
+app.use("/admin", adminRouter);
 app.use("/auth", authRouter);
 app.use("/notifications", notificationRouter);
 app.use("/rule", ruleRouter);
-if (process.env.NODE_ENV !== "production") {
+app.use("/usage", usageRouter);
+
+// Failed notification deliveries are retried in the background as they come due
+void deliveryService.scheduleRetries();
+
+if (config.nodeEnv !== "production") {
   app.listen(PORT, () => {
-    const url = `http://localhost:${PORT}`;
-    console.log(`Server listening at ${url}`);
+    logger.info("Server listening", { url: `http://localhost:${PORT}` });
   });
 }
 
@@ -0,0 +1,175 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildItemsJsonSchema,
+  type ItemSchema,
+  renderItemsMarkdown,
+  toResultItem,
+  validateItemSchema,
+} from "./items.js";
+import { notificationService } from "./services/notificationService.js";
+import { ruleService } from "./services/ruleService.js";
+import { createTestRule, queueAnswers } from "./testRules.js";
+
+const listing: ItemSchema = {
+  name: "listing",
+  fields: [
+    { name: "price", type: "number", description: "Asking price in USD" },
+    { name: "city", type: "string" },
+    { name: "pool", type: "boolean" },
+  ],
+};
+
+describe("item schemas", () => {
+  it("accepts a valid schema", () => {
+    assert.equal(validateItemSchema(listing), null);
+  });
+
+  it("rejects invalid schemas", () => {
+    const withFields = (fields: unknown) => ({ name: "listing", fields });
+    assert.equal(validateItemSchema(null), "must be an object");
+    assert.equal(validateItemSchema({ fields: [] }), "name is required");
+    assert.match(validateItemSchema(withFields([]))!, /non-empty/);
+    assert.match(
+      validateItemSchema(withFields([{ name: "Price", type: "number" }]))!,
+      /snake_case/
+    );
+    assert.match(
+      validateItemSchema(withFields([{ name: "url", type: "string" }]))!,
+      /always included/
+    );
+    assert.match(
+      validateItemSchema(
+        withFields([
+          { name: "price", type: "number" },
+          { name: "price", type: "string" },
+        ])
+      )!,
+      /duplicate field price/
+    );
+    assert.match(
+      validateItemSchema(withFields([{ name: "price", type: "date" }]))!,
+      /invalid type/
+    );
+    assert.match(
+      validateItemSchema(
+        withFields(
+          Array.from({ length: 9 }, (_, i) => ({
+            name: `f${i}`,
+            type: "string",
+          }))
+        )
+      )!,
+      /at most 8/
+    );
+  });
+
+  it("asks the model for every schema field, nullable", () => {
+    const schema = buildItemsJsonSchema(listing) as any;
+    const fields = schema.items.properties.fields;
+    assert.deepEqual(fields.required, ["price", "city", "pool"]);
+    assert.deepEqual(fields.properties.price, {
+      type: ["number", "null"],
+      description: "Asking price in USD",
+    });
+    assert.equal(fields.additionalProperties, false);
+  });
+});
+
+describe("typed items", () => {
+  it("coerces fields to the schema's types and drops undeclared ones", () => {
+    const item = toResultItem(
+      {
+        title: " 12 Oak St ",
+        url: "https://example.com/12-oak",
+        fields: {
+          price: "$1,250,000",
+          city: "Palo Alto",
+          pool: "true",
+          hoa: 1,
+        },
+      },
+      listing
+    );
+    assert.deepEqual(item, {
+      title: "12 Oak St",
+      url: "https://example.com/12-oak",
+      fields: { price: 1_250_000, city: "Palo Alto", pool: true },
+    });
+  });
+
+  it("keeps missing fields as null and skips untitled items", () => {
+    assert.deepEqual(toResultItem({ title: "Lot" }, listing)?.fields, {
+      price: null,
+      city: null,
+      pool: null,
+    });
+    assert.equal(toResultItem({ title: "  " }, listing), null);
+    assert.equal(toResultItem({ url: "https://example.com" }, null), null);
+  });
+
+  it("reads free-form name/value pairs without a schema", () => {
+    const item = toResultItem(
+      { title: "Job", fields: [{ name: "salary", value: 150000 }] },
+      null
+    );
+    assert.deepEqual(item?.fields, { salary: "150000" });
+  });
+
+  it("renders a table for typed items and a list otherwise", () => {
+    const items = [
+      {
+        title: "12 Oak | St",
+        url: "https://example.com/12-oak",
+        fields: { price: 1_250_000, city: "Palo Alto", pool: false },
+      },
+    ];
+    assert.equal(
+      renderItemsMarkdown(items, listing),
+      [
+        "| Title | Price | City | Pool |",
+        "| --- | --- | --- | --- |",
+        "| [12 Oak \\| St](https://example.com/12-oak) | 1250000 | Palo Alto | No |",
+      ].join("\n")
+    );
+    assert.equal(
+      renderItemsMarkdown([{ title: "Job", url: "", fields: { salary: "1" } }]),
+      "- **Job** — salary: 1"
+    );
+  });
+
+  it("stores typed items and a rendered summary in the notification", async () => {
+    const rule = await createTestRule({ item_schema: listing });
+    queueAnswers({
+      content: "One new listing",
+      foundRelevantResults: true,
+      items: [
+        {
+          title: "12 Oak St",
+          url: "https://example.com/12-oak",
+          fields: { price: 1_250_000, city: "Palo Alto", pool: null },
+        },
+      ],
+    });
+    const { status } = await ruleService.handleExecute({
+      body: { ruleId: rule.id, trigger: "manual" },
+    });
+    assert.equal(status, 200);
+
+    const { data } = await notificationService.getNotificationsByUserId(
+      rule.user_id,
+      { limit: 1 }
+    );
+    const { payload } = data!.notifications[0];
+    assert.deepEqual(payload.itemSchema, listing);
+    assert.deepEqual(payload.items, [
+      {
+        title: "12 Oak St",
+        url: "https://example.com/12-oak",
+        fields: { price: 1_250_000, city: "Palo Alto", pool: null },
+      },
+    ]);
+    assert.match(payload.result, /^\| Title \| Price \| City \| Pool \|/);
+  });
+});
@@ -0,0 +1,298 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Discrete result items (listings, articles, jobs...) extracted from a rule
+ * execution, and the fingerprints used to recognise an item across runs.
+ */
+
+export type ItemFieldType = "string" | "number" | "boolean";
+
+export const ITEM_FIELD_TYPES: ItemFieldType[] = [
+  "string",
+  "number",
+  "boolean",
+];
+
+export type ItemFieldValue = string | number | boolean | null;
+
+/**
+ * Shape of the items a rule reports (e.g. a "listing" with price, location...),
+ * stored on the rule. Every item also has a title and url, so those are not fields.
+ */
+export interface ItemSchema {
+  name: string;
+  fields: Array<{
+    name: string;
+    type: ItemFieldType;
+    description?: string;
+  }>;
+}
+
+export interface ResultItem {
+  title: string;
+  // Empty string when the item has no link
+  url: string;
+  // Key attributes such as price, location or date, typed per the rule's schema
+  fields: Record<string, ItemFieldValue>;
+}
+
+const MAX_ITEM_FIELDS = 8;
+const FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const RESERVED_FIELD_NAMES = ["title", "url"];
+
+/**
+ * Validate an item schema from the model or an API caller. Returns an error
+ * message, or null when valid.
+ */
+export function validateItemSchema(value: unknown): string | null {
+  const schema = value as ItemSchema;
+  if (!schema || typeof schema !== "object") return "must be an object";
+  if (typeof schema.name !== "string" || !schema.name.trim()) {
+    return "name is required";
+  }
+  if (!Array.isArray(schema.fields) || !schema.fields.length) {
+    return "fields must be a non-empty array";
+  }
+  if (schema.fields.length > MAX_ITEM_FIELDS) {
+    return `at most ${MAX_ITEM_FIELDS} fields are allowed`;
+  }
+
+  const seen = new Set<string>();
+  for (const field of schema.fields) {
+    if (!field || !FIELD_NAME_PATTERN.test(field.name)) {
+      return `invalid field name ${JSON.stringify(
+        field?.name
+      )} (use snake_case)`;
+    }
+    if (RESERVED_FIELD_NAMES.includes(field.name)) {
+      return `${field.name} is always included and cannot be a field`;
+    }
+    if (seen.has(field.name)) return `duplicate field ${field.name}`;
+    seen.add(field.name);
+    if (!ITEM_FIELD_TYPES.includes(field.type)) {
+      return `field ${field.name} has invalid type ${JSON.stringify(
+        field.type
+      )}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * JSON schema for the items array requested from the model. Typed rules get one
+ * nullable property per schema field; rules without a schema get free-form
+ * name/value pairs (structured outputs cannot express arbitrary keys).
+ */
+export function buildItemsJsonSchema(schema: ItemSchema | null) {
+  const fields = schema
+    ? {
+        type: "object",
+        properties: Object.fromEntries(
+          schema.fields.map((field) => [
+            field.name,
+            {
+              type: [field.type, "null"],
+              ...(field.description ? { description: field.description } : {}),
+            },
+          ])
+        ),
+        required: schema.fields.map((field) => field.name),
+        additionalProperties: false,
+      }
+    : {
+        type: "array",
+        description: "Key attributes such as price, location or date",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            value: { type: "string" },
+          },
+          required: ["name", "value"],
+          additionalProperties: false,
+        },
+      };
+
+  return {
+    type: "array",
+    description: schema
+      ? `Every ${schema.name} in the content`
+      : "Every discrete item (listing, article, job, product...) in the content; empty if the answer is not a list of items",
+    items: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        url: {
+          type: "string",
+          description: "Link to the item, or an empty string if none",
+        },
+        fields,
+      },
+      required: ["title", "url", "fields"],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Normalize an item as returned by the model (see buildItemsJsonSchema) into a
+ * ResultItem, coercing typed fields and dropping any the schema does not declare.
+ * Returns null for items without a title.
+ */
+export function toResultItem(
+  raw: any,
+  schema: ItemSchema | null
+): ResultItem | null {
+  if (!raw || typeof raw.title !== "string" || !raw.title.trim()) return null;
+
+  const fields: Record<string, ItemFieldValue> = {};
+  if (schema) {
+    for (const field of schema.fields) {
+      fields[field.name] = coerceFieldValue(
+        raw.fields?.[field.name],
+        field.type
+      );
+    }
+  } else if (Array.isArray(raw.fields)) {
+    for (const pair of raw.fields) {
+      if (pair?.name) fields[String(pair.name)] = String(pair.value ?? "");
+    }
+  }
+
+  return {
+    title: raw.title.trim(),
+    url: typeof raw.url === "string" ? raw.url.trim() : "",
+    fields,
+  };
+}
+
+/**
+ * Read a number written loosely, e.g. "$1,250,000" or "300 USD". NaN when no number
+ * is left once the other characters are stripped ("", "$", "abc").
+ */
+export function parseLooseNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  const cleaned = String(value ?? "").replace(/[^0-9.-]/g, "");
+  return /\d/.test(cleaned) ? Number(cleaned) : NaN;
+}
+
+function coerceFieldValue(value: unknown, type: ItemFieldType): ItemFieldValue {
+  if (value === null || value === undefined || value === "") return null;
+  switch (type) {
+    case "number": {
+      const number = parseLooseNumber(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? value : String(value) === "true";
+    case "string":
+      return String(value);
+  }
+}
+
+// Query parameters that only track the click and never identify the item
+const TRACKING_PARAMS = [/^utm_/i, /^fbclid$/i, /^gclid$/i, /^ref$/i, /^ref_/i];
+
+function normalizeText(value: string): string {
+  return value.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Canonical form of a URL so the same page linked twice compares equal: lowercased
+ * host, no fragment, no tracking parameters, sorted query and no trailing slash.
+ * Returns null for anything that is not an absolute http(s) URL.
+ */
+export function normalizeUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  url.hash = "";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.some((pattern) => pattern.test(key)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  const path = url.pathname.replace(/\/+$/, "");
+  return `${url.hostname}${path}${url.search}`;
+}
+
+/**
+ * Stable identity of an item across runs. Items with a link are identified by the
+ * normalized URL alone (titles and prices get reworded between runs); items without
+ * one fall back to the normalized title plus their key fields.
+ */
+export function fingerprintItem(item: ResultItem): string {
+  const url = normalizeUrl(item.url || "");
+  const identity = url
+    ? `url:${url}`
+    : `item:${normalizeText(item.title)}|${Object.entries(item.fields)
+        .map(
+          ([name, value]) =>
+            `${normalizeText(name)}=${normalizeText(String(value ?? ""))}`
+        )
+        .sort()
+        .join("|")}`;
+  return createHash("sha256").update(identity).digest("hex");
+}
+
+function formatFieldValue(value: ItemFieldValue): string {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// Keep table cells on one line and stop pipes from splitting columns
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function humanizeFieldName(name: string): string {
+  const words = name.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Render items as Markdown: a table with one column per schema field for typed
+ * rules, otherwise a bullet list. Used as the notification's summary whenever the
+ * model's own text cannot be shown as-is.
+ */
+export function renderItemsMarkdown(
+  items: ResultItem[],
+  schema: ItemSchema | null = null
+): string {
+  const link = (item: ResultItem) =>
+    item.url ? `[${item.title}](${item.url})` : item.title;
+
+  if (schema) {
+    const header = [
+      "Title",
+      ...schema.fields.map((f) => humanizeFieldName(f.name)),
+    ];
+    const rows = items.map((item) => [
+      link(item),
+      ...schema.fields.map((field) =>
+        formatFieldValue(item.fields[field.name] ?? null)
+      ),
+    ]);
+    return [
+      `| ${header.map(escapeCell).join(" | ")} |`,
+      `| ${header.map(() => "---").join(" | ")} |`,
+      ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+    ].join("\n");
+  }
+
+  return items
+    .map((item) => {
+      const fields = Object.entries(item.fields)
+        .map(([name, value]) => `${name}: ${formatFieldValue(value)}`)
+        .join(" · ");
+      return fields ? `- **${link(item)}** — ${fields}` : `- **${link(item)}**`;
+    })
+    .join("\n");
+}
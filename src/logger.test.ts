@@ -0,0 +1,204 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it, mock } from "node:test";
+import express from "express";
+import { config, type LogLevel } from "./config.js";
+import {
+  addLogContext,
+  getLogContext,
+  logger,
+  withLogContext,
+  type LogFields,
+} from "./logger.js";
+import { requestLogger } from "./requestLogger.js";
+
+const initialLevel = config.logLevel;
+
+/** The entries fn logs at the given LOG_LEVEL, parsed */
+function captureLogs(level: LogLevel, fn: () => void): LogFields[] {
+  const lines: string[] = [];
+  const collect = (chunk: string | Uint8Array) => {
+    lines.push(String(chunk));
+    return true;
+  };
+  config.logLevel = level;
+  const stdout = mock.method(process.stdout, "write", collect);
+  const stderr = mock.method(process.stderr, "write", collect);
+  try {
+    fn();
+  } finally {
+    stdout.mock.restore();
+    stderr.mock.restore();
+  }
+  return lines.map((line) => JSON.parse(line));
+}
+
+describe("logger", () => {
+  afterEach(() => {
+    config.logLevel = initialLevel;
+  });
+
+  it("drops entries below LOG_LEVEL", () => {
+    const entries = captureLogs("warn", () => {
+      logger.debug("debug");
+      logger.info("info");
+      logger.warn("warn");
+      logger.error("error");
+    });
+    assert.deepEqual(
+      entries.map((entry) => [entry.level, entry.msg]),
+      [
+        ["warn", "warn"],
+        ["error", "error"],
+      ]
+    );
+  });
+
+  it("redacts credentials and login codes at every level", () => {
+    for (const level of ["debug", "info"] as const) {
+      const [entry] = captureLogs(level, () =>
+        logger.info("Signing in", {
+          loginCode: "k7pq-xm3v-d9ra",
+          session: { accessToken: "a.b", refresh_token: "r" },
+          headers: [{ authorization: "Bearer a.b" }],
+          userId: "user-1",
+        })
+      );
+      assert.deepEqual(
+        {
+          loginCode: entry.loginCode,
+          session: entry.session,
+          headers: entry.headers,
+          userId: entry.userId,
+        },
+        {
+          loginCode: "[redacted]",
+          session: { accessToken: "[redacted]", refresh_token: "[redacted]" },
+          headers: [{ authorization: "[redacted]" }],
+          userId: "user-1",
+        },
+        level
+      );
+    }
+  });
+
+  it("logs prompt bodies in full only at debug", () => {
+    const prompt = "Let me know about new listings";
+    const fields = { prompt, history: [{ role: "user" }], model: "gpt-5" };
+
+    const [info] = captureLogs("info", () => logger.info("Running", fields));
+    assert.equal(info.prompt, `[redacted: ${prompt.length} chars]`);
+    assert.equal(info.history, "[redacted]");
+    assert.equal(info.model, "gpt-5");
+
+    const [debug] = captureLogs("debug", () => logger.info("Running", fields));
+    assert.equal(debug.prompt, prompt);
+    assert.deepEqual(debug.history, [{ role: "user" }]);
+  });
+
+  it("redacts fields attached to errors", () => {
+    const error = Object.assign(new Error("Upstream rejected the request"), {
+      apiKey: "sk-123",
+      status: 401,
+    });
+    const [entry] = captureLogs("error", () =>
+      logger.error("Call failed", { error })
+    );
+    const logged = entry.error as LogFields;
+    assert.equal(logged.message, "Upstream rejected the request");
+    assert.equal(logged.apiKey, "[redacted]");
+    assert.equal(logged.status, 401);
+    assert.match(String(logged.stack), /Upstream rejected the request/);
+  });
+
+  it("adds the context's correlation ids to every entry", async () => {
+    const entries: LogFields[] = [];
+    await withLogContext({ requestId: "req-1" }, async () => {
+      await withLogContext({ ruleId: "rule-1" }, async () => {
+        await Promise.resolve();
+        addLogContext({ runId: "run-1" });
+        entries.push(...captureLogs("info", () => logger.info("Inner")));
+      });
+      entries.push(...captureLogs("info", () => logger.info("Outer")));
+    });
+    entries.push(...captureLogs("info", () => logger.info("Outside")));
+
+    const ids = entries.map(({ requestId, ruleId, runId }) => ({
+      requestId,
+      ruleId,
+      runId,
+    }));
+    assert.deepEqual(ids, [
+      { requestId: "req-1", ruleId: "rule-1", runId: "run-1" },
+      { requestId: "req-1", ruleId: undefined, runId: undefined },
+      { requestId: undefined, ruleId: undefined, runId: undefined },
+    ]);
+  });
+});
+
+describe("requestLogger", () => {
+  async function request(headers: Record<string, string>, path = "/ping") {
+    let handlerContext: LogFields = {};
+    const completed: LogFields[] = [];
+    const info = mock.method(
+      logger,
+      "info",
+      (_msg: string, fields: LogFields) =>
+        completed.push({ ...getLogContext(), ...fields })
+    );
+
+    const app = express();
+    app.use(requestLogger);
+    app.get("/ping", (_req, res) => {
+      handlerContext = getLogContext();
+      res.json({ ok: true });
+    });
+    const server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    try {
+      const port = (server.address() as AddressInfo).port;
+      const response = await fetch(`http://localhost:${port}${path}`, {
+        headers,
+      });
+      await response.json();
+      // The completion entry is logged once the response has been sent
+      await new Promise((resolve) => setImmediate(resolve));
+      return {
+        requestId: response.headers.get("x-request-id"),
+        handlerContext,
+        completed,
+      };
+    } finally {
+      info.mock.restore();
+      server.close();
+    }
+  }
+
+  it("accepts a well-formed incoming request id", async () => {
+    const { requestId, handlerContext, completed } = await request({
+      "X-Request-Id": "proxy-42",
+      "Upstash-Message-Id": "msg_1",
+    });
+    assert.equal(requestId, "proxy-42");
+    assert.deepEqual(handlerContext, {
+      requestId: "proxy-42",
+      messageId: "msg_1",
+    });
+    assert.equal(completed[0].requestId, "proxy-42");
+    assert.equal(completed[0].status, 200);
+  });
+
+  it("replaces a malformed request id with a new one", async () => {
+    const { requestId, handlerContext } = await request({
+      "X-Request-Id": "bad id\twith spaces",
+    });
+    assert.match(requestId!, /^[0-9a-f-]{36}$/);
+    assert.equal(handlerContext.requestId, requestId);
+  });
+
+  it("leaves the query string out of the logged path", async () => {
+    const { completed } = await request({}, "/ping?access_token=a.b");
+    assert.equal(completed[0].path, "/ping");
+  });
+});
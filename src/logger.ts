@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { config, type LogLevel } from "./config.js";
+
+/**
+ * Structured logging: one JSON object per line, with the level, message and the
+ * correlation ids of whatever is being handled (requestId, ruleId, runId...), so a
+ * single QStash delivery can be followed from the request through the LLM calls to
+ * the notification. Ids are attached with withLogContext and flow through awaits
+ * via AsyncLocalStorage, so callers do not have to pass them down.
+ *
+ * Entries below LOG_LEVEL (default "info") are dropped. Credentials and login codes
+ * are always redacted; prompt bodies and model output are only logged in full at
+ * "debug", and otherwise replaced by their length.
+ */
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Never logged, whatever the level
+const SECRET_KEYS = new Set([
+  "loginCode",
+  "login_code",
+  "login_code_hash",
+  "accessToken",
+  "access_token",
+  "refreshToken",
+  "refresh_token",
+  "authorization",
+  "password",
+  "pass",
+  "secret",
+  "apiKey",
+  "token",
+]);
+
+// User prompts and model output: logged in full at debug only
+const PROMPT_KEYS = new Set([
+  "prompt",
+  "textPrompt",
+  "aiPrompt",
+  "generatedPrompt",
+  "input",
+  "history",
+  "output",
+  "content",
+  "result",
+]);
+
+const MAX_DEPTH = 6;
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run fn with fields added to every entry logged inside it (including from
+ * anything it awaits). Nested contexts inherit the outer fields.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add fields to the current context, e.g. a run id that only exists part-way
+ * through. No-op outside withLogContext.
+ */
+export function addLogContext(fields: LogFields) {
+  const store = context.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+export function getLogContext(): LogFields {
+  return { ...context.getStore() };
+}
+
+function serializeError(error: Error, depth: number): LogFields {
+  return {
+    name: error.name,
+    message: error.message,
+    ...redact({ ...error }, depth + 1),
+    stack: error.stack,
+  };
+}
+
+function redact(value: unknown, depth = 0): any {
+  if (value instanceof Error) return serializeError(value, depth);
+  if (value === null || typeof value !== "object") {
+    return typeof value === "bigint" ? value.toString() : value;
+  }
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `[buffer: ${value.length} bytes]`;
+
+  const showPrompts = config.logLevel === "debug";
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) => {
+      if (SECRET_KEYS.has(key) && inner) return [key, "[redacted]"];
+      if (PROMPT_KEYS.has(key) && !showPrompts && inner) {
+        return [
+          key,
+          typeof inner === "string"
+            ? `[redacted: ${inner.length} chars]`
+            : "[redacted]",
+        ];
+      }
+      return [key, redact(inner, depth + 1)];
+    })
+  );
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[config.logLevel]) return;
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...redact({ ...context.getStore(), ...fields }),
+  };
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    // A field that cannot be serialized (e.g. a throwing toJSON): keep the message
+    line = JSON.stringify({
+      time: entry.time,
+      level,
+      msg: message,
+      fields: "[unserializable]",
+    });
+  }
+  (level === "warn" || level === "error"
+    ? process.stderr
+    : process.stdout
+  ).write(line + "\n");
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
@@ -0,0 +1,124 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from "prom-client";
+
+/**
+ * Prometheus metrics, served in text format at /metrics. Labels only take values
+ * from small fixed sets (route templates rather than URLs, provider names, the
+ * model families providers list, outcomes), never ids or user input, so the number
+ * of series stays bounded.
+ */
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: "berry_" });
+
+export const httpRequests = new Counter({
+  name: "berry_http_requests_total",
+  help: "HTTP requests by method, route and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "berry_http_request_duration_seconds",
+  help: "HTTP request duration by method, route and status code",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+export const ruleExecutions = new Counter({
+  name: "berry_rule_executions_total",
+  help: "Rule executions by outcome (succeeded, failed, skipped, duplicate) and trigger",
+  labelNames: ["outcome", "trigger"] as const,
+  registers: [registry],
+});
+
+export const ruleExecutionDuration = new Histogram({
+  name: "berry_rule_execution_duration_seconds",
+  help: "Duration of rule executions that ran, by outcome and trigger",
+  labelNames: ["outcome", "trigger"] as const,
+  // Web search and browser runs take from seconds to many minutes
+  buckets: [1, 5, 10, 30, 60, 120, 300, 600, 1200],
+  registers: [registry],
+});
+
+export const llmRequestDuration = new Histogram({
+  name: "berry_llm_request_duration_seconds",
+  help: "LLM request latency by provider, model family and status (ok or error)",
+  labelNames: ["provider", "model", "status"] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const llmTokens = new Counter({
+  name: "berry_llm_tokens_total",
+  help: "LLM tokens used by provider, model family and type (input or output)",
+  labelNames: ["provider", "model", "type"] as const,
+  registers: [registry],
+});
+
+export const computerUseSteps = new Counter({
+  name: "berry_computer_use_steps_total",
+  help: "Computer-use agent steps by action type",
+  labelNames: ["action"] as const,
+  registers: [registry],
+});
+
+export const computerUseStepsPerRun = new Histogram({
+  name: "berry_computer_use_steps_per_run",
+  help: "Number of model turns a computer-use agent run took to finish",
+  buckets: [1, 2, 5, 10, 20, 30, 50, 75, 100],
+  registers: [registry],
+});
+
+export const notificationsCreated = new Counter({
+  name: "berry_notifications_created_total",
+  help: "Notifications created for users",
+  registers: [registry],
+});
+
+export const qstashOperations = new Counter({
+  name: "berry_qstash_operations_total",
+  help: "QStash API operations by operation and outcome (ok or error)",
+  labelNames: ["operation", "outcome"] as const,
+  registers: [registry],
+});
+
+export const qstashOperationDuration = new Histogram({
+  name: "berry_qstash_operation_duration_seconds",
+  help: "QStash API latency by operation",
+  labelNames: ["operation"] as const,
+  buckets: [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+// Mount path plus route path, without the trailing slash of a router's "/" route
+function routeTemplate(req: Request): string {
+  const path = req.route.path === "/" && req.baseUrl ? "" : req.route.path;
+  return `${req.baseUrl}${path}`;
+}
+
+/**
+ * Count every request and time it by route template (e.g. /rule/:ruleId/runs).
+ * Requests no route matched are labelled "unmatched" so probing random URLs
+ * cannot create new series.
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const stopTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const labels = {
+      method: req.method,
+      route: req.route ? routeTemplate(req) : "unmatched",
+      status: String(res.statusCode),
+    };
+    httpRequests.inc(labels);
+    stopTimer(labels);
+  });
+  next();
+}
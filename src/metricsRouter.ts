@@ -0,0 +1,13 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { registry } from "./metrics.js";
+
+const metricsRouter = express.Router();
+
+// GET /metrics - Prometheus scrape endpoint (text exposition format)
+metricsRouter.get("/metrics", async (_req: Request, res: Response) => {
+  res.setHeader("Content-Type", registry.contentType);
+  return res.status(200).send(await registry.metrics());
+});
+
+export { metricsRouter };
@@ -0,0 +1,43 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getProvider, modelFamily } from "./services/llmService.js";
+import { ruleService } from "./services/ruleService.js";
+
+describe("modelFamily", () => {
+  const openai = getProvider("openai")!;
+
+  it("accepts listed models and their dated snapshots", () => {
+    assert.equal(modelFamily(openai, "gpt-5"), "gpt-5");
+    assert.equal(modelFamily(openai, "gpt-5-mini"), "gpt-5-mini");
+    assert.equal(modelFamily(openai, "gpt-4.1-2025-04-14"), "gpt-4.1");
+    assert.equal(modelFamily(openai, "gpt-4.1-mini"), "gpt-4.1-mini");
+    assert.equal(modelFamily(openai, "gpt-4o-mini-2024-07-18"), "gpt-4o-mini");
+    assert.equal(
+      modelFamily(openai, "o3-deep-research-2025-06-26"),
+      "o3-deep-research"
+    );
+  });
+
+  it("rejects variants the provider does not list", () => {
+    for (const model of ["gpt-5-pro", "gpt-5-foo", "gpt-5-2025", "gpt-5x"]) {
+      assert.equal(modelFamily(openai, model), undefined, model);
+    }
+  });
+});
+
+describe("rule model selection", () => {
+  for (const model of ["gpt-5-pro", "gpt-5-foo"]) {
+    it(`rejects ${model} with a 400`, async () => {
+      const { status, body } = await ruleService.handleCreate({
+        body: {
+          userId: "00000000-0000-0000-0000-000000000000",
+          textPrompt: "Tell me about new listings",
+          model,
+        },
+      });
+      assert.equal(status, 400);
+      assert.match(body.error, /Unknown model for provider openai/);
+    });
+  }
+});
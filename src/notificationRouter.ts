@@ -1,21 +1,82 @@
 import express from "express";
 import type { Request, Response } from "express";
-import { notificationService } from "./services/notificationService.js";
+import { requireAuth } from "./authMiddleware.js";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { parseLimit } from "./pagination.js";
+import {
+  deliveryService,
+  parsePreferenceFields,
+} from "./services/deliveryService.js";
+import {
+  type NotificationRecord,
+  notificationService,
+} from "./services/notificationService.js";
+import { notificationStream } from "./services/notificationStream.js";
+import { ruleService } from "./services/ruleService.js";
+import { scheduler } from "./services/schedulerService.js";
 
 const notificationRouter = express.Router();
 
-// GET /notifications?userId=xxx - return notifications for a user
+const STREAM_HEARTBEAT_MS = 25_000;
+const STREAM_REPLAY_LIMIT = 100;
+
+// POST /notifications/deliveries/retry-due - retry every user's due deliveries.
+// Called by the scheduler's retry job (authenticated by signature).
+notificationRouter.post(
+  "/deliveries/retry-due",
+  async (req: Request, res: Response) => {
+    const signature = (req.headers["upstash-signature"] as string) || undefined;
+    const rawBody: Buffer | undefined = (req as Request & { rawBody?: Buffer })
+      .rawBody;
+    const verified = await scheduler
+      .verifySignature(rawBody ?? Buffer.alloc(0), signature)
+      .catch(() => false);
+    if (!verified) {
+      return res.status(401).json({ error: "Invalid upstash-signature" });
+    }
+
+    const { data, error } = await deliveryService.retryFailedDeliveries();
+    if (error) {
+      return res.status(500).json({ error: "Failed to retry deliveries" });
+    }
+    return res.status(200).json(data);
+  }
+);
+
+notificationRouter.use(requireAuth);
+
+// Parse a numeric notification id (route param or cursor); null if invalid
+function parseId(value: unknown): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// GET /notifications?cursor=&limit=&ruleId=&unread=true&archived=true
+// - return a page of notifications for the authenticated user, newest first
 notificationRouter.get("/", async (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
+  const userId = req.user!.id;
+  const { cursor, ruleId, unread, archived } = req.query as {
+    cursor?: string;
+    ruleId?: string;
+    unread?: string;
+    archived?: string;
+  };
 
-  if (!userId) {
-    return res
-      .status(400)
-      .json({ error: "userId query parameter is required" });
+  const parsedCursor = cursor === undefined ? undefined : parseId(cursor);
+  if (parsedCursor === null) {
+    return res.status(400).json({ error: "Invalid cursor" });
   }
 
   const { data, error } = await notificationService.getNotificationsByUserId(
-    userId
+    userId,
+    {
+      cursor: parsedCursor,
+      limit: parseLimit(req.query),
+      ruleId,
+      unreadOnly: unread === "true",
+      archived: archived === "true",
+    }
   );
   if (error) {
     return res.status(500).json({ error: "Failed to fetch notifications" });
@@ -23,4 +84,313 @@ notificationRouter.get("/", async (req: Request, res: Response) => {
   return res.status(200).json(data);
 });
 
+// GET /notifications/stream - Server-Sent Events feed of new notifications.
+// Each event's id is the notification id; a reconnecting client sends it back as
+// Last-Event-ID (or ?lastEventId=) and receives everything created since. On every
+// heartbeat the database is checked too, so notifications created by another
+// instance are still delivered.
+notificationRouter.get("/stream", async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const resumeFrom = req.header("Last-Event-ID") ?? req.query.lastEventId;
+
+  let lastSentId: number | null = null;
+  if (resumeFrom !== undefined) {
+    lastSentId = parseId(resumeFrom);
+    if (lastSentId === null) {
+      return res.status(400).json({ error: "Invalid Last-Event-ID" });
+    }
+  } else {
+    const { data, error } = await notificationService.getLatestNotificationId(
+      userId
+    );
+    if (error) {
+      return res.status(500).json({ error: "Failed to open stream" });
+    }
+    lastSentId = data ?? 0;
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  let closed = false;
+  let catchingUp: Promise<void> = Promise.resolve();
+
+  const send = (notification: NotificationRecord) => {
+    if (closed || !notification.id || notification.id <= lastSentId!) return;
+    lastSentId = notification.id;
+    res.write(
+      `id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(
+        notification
+      )}\n\n`
+    );
+  };
+
+  // Replay from the database; chained so replays never interleave
+  const catchUp = () => {
+    catchingUp = catchingUp.then(async () => {
+      if (closed) return;
+      const { data } = await notificationService.getNotificationsSince(
+        userId,
+        lastSentId!,
+        STREAM_REPLAY_LIMIT
+      );
+      data?.forEach(send);
+    });
+    return catchingUp;
+  };
+
+  // Subscribe before replaying so nothing created in between is lost; send()
+  // drops anything already sent
+  const unsubscribe = notificationStream.subscribe(userId, (notification) => {
+    catchingUp.then(() => send(notification));
+  });
+  const heartbeat = setInterval(() => {
+    if (closed) return;
+    res.write(": heartbeat\n\n");
+    void catchUp();
+  }, STREAM_HEARTBEAT_MS);
+
+  res.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  await catchUp();
+});
+
+// GET /notifications/unread-count - cheap badge count for the authenticated user
+notificationRouter.get("/unread-count", async (req: Request, res: Response) => {
+  const { data, error } = await notificationService.getUnreadCount(
+    req.user!.id
+  );
+  if (error) {
+    return res.status(500).json({ error: "Failed to count notifications" });
+  }
+  return res.status(200).json({ count: data });
+});
+
+// GET /notifications/preferences?ruleId= - delivery channel preferences (user defaults,
+// the rule's overrides and the effective merge)
+notificationRouter.get("/preferences", async (req: Request, res: Response) => {
+  const { ruleId } = req.query as { ruleId?: string };
+  const userId = req.user!.id;
+
+  if (ruleId) {
+    const { data: rule } = await ruleService.getUserRule(ruleId, userId);
+    if (!rule) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+  }
+
+  const { data, error } = await deliveryService.getPreferences(userId, ruleId);
+  if (error) {
+    return res.status(500).json({ error: "Failed to fetch preferences" });
+  }
+  return res.status(200).json(data);
+});
+
+// PUT /notifications/preferences?ruleId= - set user defaults, or a rule's overrides
+notificationRouter.put("/preferences", async (req: Request, res: Response) => {
+  const { ruleId } = req.query as { ruleId?: string };
+  const userId = req.user!.id;
+
+  if (ruleId) {
+    const { data: rule } = await ruleService.getUserRule(ruleId, userId);
+    if (!rule) {
+      return res.status(404).json({ error: "Rule not found" });
+    }
+  }
+
+  const parsed = await parsePreferenceFields(req.body ?? {});
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const { data, error } = await deliveryService.updatePreferences(
+    userId,
+    ruleId ?? null,
+    parsed.fields
+  );
+  if (error) {
+    return res.status(500).json({ error: "Failed to save preferences" });
+  }
+  return res.status(200).json(data);
+});
+
+// GET /notifications/push/public-key - VAPID public key for PushManager.subscribe
+notificationRouter.get("/push/public-key", (_req: Request, res: Response) => {
+  const publicKey = config.vapid.publicKey;
+  if (!publicKey) {
+    return res.status(404).json({ error: "Web Push is not configured" });
+  }
+  return res.status(200).json({ publicKey });
+});
+
+// POST /notifications/push-subscriptions - register a browser push subscription
+notificationRouter.post(
+  "/push-subscriptions",
+  async (req: Request, res: Response) => {
+    const { endpoint, keys } = req.body as {
+      endpoint?: string;
+      keys?: { p256dh?: string; auth?: string };
+    };
+
+    if (!endpoint || !keys?.p256dh || !keys?.auth) {
+      return res.status(400).json({
+        error: "Missing required fields: endpoint, keys.p256dh and keys.auth",
+      });
+    }
+
+    const { data, error } = await deliveryService.addPushSubscription({
+      user_id: req.user!.id,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+    });
+    if (error) {
+      return res.status(500).json({ error: "Failed to save subscription" });
+    }
+    return res.status(201).json(data);
+  }
+);
+
+// DELETE /notifications/push-subscriptions - unregister a browser push subscription
+notificationRouter.delete(
+  "/push-subscriptions",
+  async (req: Request, res: Response) => {
+    const { endpoint } = req.body as { endpoint?: string };
+
+    if (!endpoint) {
+      return res
+        .status(400)
+        .json({ error: "Missing required field: endpoint" });
+    }
+
+    const { success, error } = await deliveryService.removePushSubscription(
+      req.user!.id,
+      endpoint
+    );
+    if (!success) {
+      logger.error("Failed to delete push subscription", { error });
+      return res.status(500).json({ error: "Failed to delete subscription" });
+    }
+    return res.status(200).json({ message: "Subscription removed" });
+  }
+);
+
+// POST /notifications/deliveries/retry - retry the user's failed deliveries that are due
+notificationRouter.post(
+  "/deliveries/retry",
+  async (req: Request, res: Response) => {
+    const { data, error } = await deliveryService.retryFailedDeliveries(
+      req.user!.id
+    );
+    if (error) {
+      return res.status(500).json({ error: "Failed to retry deliveries" });
+    }
+    return res.status(200).json(data);
+  }
+);
+
+// POST /notifications/read-all?ruleId= - mark all (or one rule's) notifications as read
+notificationRouter.post("/read-all", async (req: Request, res: Response) => {
+  const { ruleId } = req.query as { ruleId?: string };
+
+  const { data, error } = await notificationService.markAllAsRead(
+    req.user!.id,
+    ruleId
+  );
+  if (error) {
+    return res.status(500).json({ error: "Failed to mark notifications read" });
+  }
+  return res.status(200).json({ updated: data });
+});
+
+// POST /notifications/:id/read - mark one notification as read
+notificationRouter.post("/:id/read", async (req: Request, res: Response) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: "Invalid notification id" });
+  }
+
+  const { data, error } = await notificationService.markAsRead(
+    req.user!.id,
+    id
+  );
+  if (error) {
+    return res.status(500).json({ error: "Failed to mark notification read" });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+  return res.status(200).json(data);
+});
+
+// POST /notifications/:id/archive - hide one notification from the inbox
+notificationRouter.post("/:id/archive", async (req: Request, res: Response) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: "Invalid notification id" });
+  }
+
+  const { data, error } = await notificationService.archive(req.user!.id, id);
+  if (error) {
+    return res.status(500).json({ error: "Failed to archive notification" });
+  }
+  if (!data) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+  return res.status(200).json(data);
+});
+
+// GET /notifications/:id/deliveries - delivery attempts for one notification
+notificationRouter.get(
+  "/:id/deliveries",
+  async (req: Request, res: Response) => {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: "Invalid notification id" });
+    }
+
+    const { data: notification } =
+      await notificationService.getNotificationById(req.user!.id, id);
+    if (!notification) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    const { data, error } = await deliveryService.getDeliveries(id);
+    if (error) {
+      return res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+    return res.status(200).json(data);
+  }
+);
+
+// DELETE /notifications/:id - delete one notification
+notificationRouter.delete("/:id", async (req: Request, res: Response) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: "Invalid notification id" });
+  }
+
+  const { success, error } = await notificationService.deleteNotification(
+    req.user!.id,
+    id
+  );
+  if (error) {
+    return res.status(500).json({ error: "Failed to delete notification" });
+  }
+  if (!success) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+  return res.status(200).json({ message: "Notification deleted", id });
+});
+
 export { notificationRouter };
@@ -0,0 +1,190 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import express from "express";
+import { notificationRouter } from "./notificationRouter.js";
+import { authService } from "./services/authService.js";
+import { notificationService } from "./services/notificationService.js";
+import { notificationStream } from "./services/notificationStream.js";
+import { userService } from "./services/userService.js";
+
+// Mirrors the router's STREAM_HEARTBEAT_MS and STREAM_REPLAY_LIMIT
+const HEARTBEAT_MS = 25_000;
+const REPLAY_LIMIT = 100;
+
+interface OpenStream {
+  ids: number[];
+  heartbeats: number;
+  close(): void;
+}
+
+let server: ReturnType<ReturnType<typeof express>["listen"]>;
+let baseUrl: string;
+let userId: string;
+let accessToken: string;
+const streams: OpenStream[] = [];
+
+async function notify(count: number, publish = false): Promise<number[]> {
+  const ids: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const { data } = await notificationService.createNotification(
+      userId,
+      "rule-1",
+      { result: `result ${i}` }
+    );
+    if (publish) notificationStream.publish(data!);
+    ids.push(data!.id!);
+  }
+  return ids;
+}
+
+// Open /notifications/stream and collect event ids and heartbeats as they arrive
+async function openStream(
+  headers: Record<string, string> = {}
+): Promise<OpenStream> {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/notifications/stream`, {
+    headers: {
+      Accept: "text/event-stream",
+      Authorization: `Bearer ${accessToken}`,
+      ...headers,
+    },
+    signal: controller.signal,
+  });
+  assert.equal(response.status, 200);
+
+  const stream: OpenStream = {
+    ids: [],
+    heartbeats: 0,
+    close: () => controller.abort(),
+  };
+  streams.push(stream);
+  void (async () => {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      for await (const chunk of response.body!) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const event = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const id = event.match(/^id: (\d+)$/m);
+          if (id) stream.ids.push(Number(id[1]));
+          else if (event === ": heartbeat") stream.heartbeats += 1;
+        }
+      }
+    } catch {
+      // Aborted by close()
+    }
+  })();
+  return stream;
+}
+
+async function until(description: string, check: () => boolean) {
+  const deadline = Date.now() + 5_000;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+// Let in-flight responses arrive before asserting nothing more did
+const settle = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+describe("notification stream", () => {
+  before(async () => {
+    const app = express();
+    app.use("/notifications", notificationRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    mock.timers.enable({ apis: ["setInterval"] });
+  });
+
+  beforeEach(async () => {
+    const { data: created } = await userService.createUser("Stream test");
+    userId = created!.user.id;
+    const { data: session } = await authService.issueSession(userId);
+    accessToken = session!.accessToken;
+  });
+
+  after(() => {
+    streams.forEach((stream) => stream.close());
+    mock.timers.reset();
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it("replays what was created after Last-Event-ID", async () => {
+    const [first, ...rest] = await notify(3);
+    const stream = await openStream({ "Last-Event-ID": String(first) });
+    await until("the replay", () => stream.ids.length === rest.length);
+    assert.deepEqual(stream.ids, rest);
+    stream.close();
+  });
+
+  it("starts from the newest notification without Last-Event-ID", async () => {
+    await notify(2);
+    const stream = await openStream();
+    const published = await notify(1, true);
+    await until("the new notification", () => stream.ids.length > 0);
+    await settle();
+    assert.deepEqual(stream.ids, published);
+    stream.close();
+  });
+
+  it("rejects an invalid Last-Event-ID", async () => {
+    const response = await fetch(`${baseUrl}/notifications/stream`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Last-Event-ID": "abc",
+      },
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it("catches up on every heartbeat", async () => {
+    const stream = await openStream();
+    // Created elsewhere (another instance), so never published to this one
+    const missed = await notify(2);
+    await settle();
+    assert.deepEqual(stream.ids, []);
+
+    mock.timers.tick(HEARTBEAT_MS);
+    await until("the heartbeat catch-up", () => stream.ids.length === 2);
+    assert.deepEqual(stream.ids, missed);
+    assert.equal(stream.heartbeats, 1);
+    stream.close();
+  });
+
+  it("replays at most the limit at once and the rest on the next heartbeat", async () => {
+    const [marker] = await notify(1);
+    const missed = await notify(REPLAY_LIMIT + 20);
+    const stream = await openStream({ "Last-Event-ID": String(marker) });
+
+    await until("the first replay", () => stream.ids.length === REPLAY_LIMIT);
+    await settle();
+    assert.deepEqual(stream.ids, missed.slice(0, REPLAY_LIMIT));
+
+    mock.timers.tick(HEARTBEAT_MS);
+    await until("the rest", () => stream.ids.length === missed.length);
+    assert.deepEqual(stream.ids, missed);
+    stream.close();
+  });
+
+  it("never sends a notification twice", async () => {
+    const stream = await openStream();
+    const published = await notify(1, true);
+    await until("the published notification", () => stream.ids.length === 1);
+
+    mock.timers.tick(HEARTBEAT_MS);
+    await until("the heartbeat", () => stream.heartbeats === 1);
+    await settle();
+    assert.deepEqual(stream.ids, published);
+    stream.close();
+  });
+});
@@ -0,0 +1,135 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, it } from "node:test";
+import { parseLimit, parsePagination } from "./pagination.js";
+import { notificationService } from "./services/notificationService.js";
+
+let userId: string;
+
+async function notify(ruleId: string, count: number): Promise<number[]> {
+  const ids: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const { data } = await notificationService.createNotification(
+      userId,
+      ruleId,
+      { result: `result ${i}` }
+    );
+    ids.push(data!.id!);
+  }
+  return ids;
+}
+
+async function unread(): Promise<number> {
+  const { data } = await notificationService.getUnreadCount(userId);
+  return data!;
+}
+
+beforeEach(() => {
+  userId = randomUUID();
+});
+
+describe("notification pages", () => {
+  it("walks every notification newest first through nextCursor", async () => {
+    const ids = await notify("rule-a", 5);
+
+    const seen: number[] = [];
+    let cursor: number | undefined;
+    for (;;) {
+      const { data } = await notificationService.getNotificationsByUserId(
+        userId,
+        { cursor, limit: 2 }
+      );
+      seen.push(...data!.notifications.map((notification) => notification.id!));
+      if (data!.nextCursor === null) break;
+      cursor = data!.nextCursor;
+    }
+    assert.deepEqual(seen, [...ids].reverse());
+  });
+
+  it("ends with a null cursor when the page is exactly full", async () => {
+    await notify("rule-a", 2);
+    const { data } = await notificationService.getNotificationsByUserId(
+      userId,
+      { limit: 2 }
+    );
+    assert.equal(data!.notifications.length, 2);
+    assert.equal(data!.nextCursor, null);
+  });
+
+  it("filters by rule, unread and archived", async () => {
+    const [first, second] = await notify("rule-a", 2);
+    const [other] = await notify("rule-b", 1);
+    await notificationService.markAsRead(userId, first);
+    await notificationService.archive(userId, other);
+
+    const page = async (query: object) =>
+      (
+        await notificationService.getNotificationsByUserId(userId, {
+          limit: 10,
+          ...query,
+        })
+      ).data!.notifications.map((notification) => notification.id);
+
+    assert.deepEqual(await page({}), [second, first]);
+    assert.deepEqual(await page({ ruleId: "rule-b" }), []);
+    assert.deepEqual(await page({ unreadOnly: true }), [second]);
+    assert.deepEqual(await page({ archived: true }), [other]);
+  });
+
+  it("only returns the user's own notifications", async () => {
+    const [id] = await notify("rule-a", 1);
+    const stranger = randomUUID();
+    const { data } = await notificationService.getNotificationsByUserId(
+      stranger,
+      { limit: 10 }
+    );
+    assert.deepEqual(data!.notifications, []);
+    assert.equal(
+      (await notificationService.markAsRead(stranger, id)).data,
+      null
+    );
+  });
+});
+
+describe("unread counts", () => {
+  it("counts unread, unarchived notifications", async () => {
+    const [first, second] = await notify("rule-a", 3);
+    assert.equal(await unread(), 3);
+
+    await notificationService.markAsRead(userId, first);
+    assert.equal(await unread(), 2);
+
+    await notificationService.archive(userId, second);
+    assert.equal(await unread(), 1);
+  });
+
+  it("marks everything read, or one rule's notifications", async () => {
+    await notify("rule-a", 2);
+    await notify("rule-b", 1);
+
+    const { data: marked } = await notificationService.markAllAsRead(
+      userId,
+      "rule-a"
+    );
+    assert.equal(marked, 2);
+    assert.equal(await unread(), 1);
+
+    assert.equal((await notificationService.markAllAsRead(userId)).data, 1);
+    assert.equal(await unread(), 0);
+  });
+});
+
+describe("page size", () => {
+  it("defaults and caps ?limit=", () => {
+    assert.equal(parseLimit({}), 20);
+    assert.equal(parseLimit({ limit: "5" }), 5);
+    assert.equal(parseLimit({ limit: "1000" }), 100);
+    assert.equal(parseLimit({ limit: "-1" }), 20);
+    assert.equal(parseLimit({ limit: "abc" }), 20);
+    assert.deepEqual(parsePagination({ limit: "5", offset: "-3" }), {
+      limit: 5,
+      offset: 0,
+    });
+  });
+});
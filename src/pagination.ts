@@ -0,0 +1,28 @@
+import type { Request } from "express";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse ?limit= with sane bounds
+ */
+export function parseLimit(query: Request["query"]): number {
+  const limit = Number.parseInt(String(query.limit ?? ""), 10);
+  return Number.isFinite(limit) && limit > 0
+    ? Math.min(limit, MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE;
+}
+
+/**
+ * Parse ?limit=&offset= pagination query parameters with sane bounds
+ */
+export function parsePagination(query: Request["query"]): {
+  limit: number;
+  offset: number;
+} {
+  const offset = Number.parseInt(String(query.offset ?? ""), 10);
+  return {
+    limit: parseLimit(query),
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+  };
+}
@@ -0,0 +1,64 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { describe, it, mock } from "node:test";
+import { db } from "./db/repositories.js";
+import { notificationService } from "./services/notificationService.js";
+import { ruleService } from "./services/ruleService.js";
+import { scheduler } from "./services/schedulerService.js";
+
+// The prompt the e2e suite recorded fixtures for, so generation and the sample
+// execution replay without a model
+const RULE_PROMPT =
+  "Let me know about new 3-bedroom houses for sale in Palo Alto under $3M";
+
+describe("rule preview", () => {
+  it("returns the generated rule and a sample result", async () => {
+    const { status, body } = await ruleService.handlePreview({
+      body: { userId: randomUUID(), textPrompt: RULE_PROMPT },
+    });
+    assert.equal(status, 200, JSON.stringify(body));
+    assert.ok(body.generatedPrompt);
+    assert.equal(body.rule.prompt, body.generatedPrompt);
+    assert.ok(body.rule.cron);
+    assert.ok(body.rule.frequency);
+    assert.equal(body.rule.id, undefined);
+    assert.equal(typeof body.sample.content, "string");
+    assert.ok(Array.isArray(body.sample.items));
+    assert.equal(typeof body.sample.wouldNotify, "boolean");
+    assert.ok(body.sample.usage.totalTokens > 0);
+  });
+
+  it("saves, schedules and notifies nothing", async () => {
+    const userId = randomUUID();
+    const scheduled = mock.method(scheduler, "scheduleExecution");
+    const triggered = mock.method(scheduler, "triggerImmediateExecution");
+    const { status } = await ruleService.handlePreview({
+      body: { userId, textPrompt: RULE_PROMPT },
+    });
+    scheduled.mock.restore();
+    triggered.mock.restore();
+    assert.equal(status, 200);
+
+    assert.equal(scheduled.mock.callCount(), 0);
+    assert.equal(triggered.mock.callCount(), 0);
+    assert.deepEqual((await db.rules.getUserRules(userId)).data, []);
+    assert.equal((await db.runs.getRunsByUserId(userId, 10, 0)).data!.total, 0);
+    const { data } = await notificationService.getNotificationsByUserId(
+      userId,
+      { limit: 10 }
+    );
+    assert.deepEqual(data!.notifications, []);
+  });
+
+  it("rejects a model the provider does not list", async () => {
+    const { status } = await ruleService.handlePreview({
+      body: {
+        userId: randomUUID(),
+        textPrompt: RULE_PROMPT,
+        model: "gpt-5-pro",
+      },
+    });
+    assert.equal(status, 400);
+  });
+});
@@ -1,15 +1,11 @@
-import dotenv from "dotenv";
-
-dotenv.config();
-
 /**
  * Centralized prompt builders used across the app.
  */
 
 /**
  * Build a system/user instruction to transform a user's idea into a crisp rule prompt
- * suitable for periodic autonomous execution. The model should output only the final
- * prompt users want the model to run on schedule.
+ * suitable for periodic autonomous execution, plus the cron schedule and timezone it
+ * should run on and whether it needs the browser agent.
  */
 export function buildRuleGenerationPrompt(userRequest: string): string {
   return `You are a concise assistant that writes clear, actionable prompts for an autonomous periodic agent.
@@ -22,12 +18,39 @@ Given the user's request, produce ONE short, self-contained prompt that:
 - When the task involves collecting or comparing items (like listings, jobs, products), ask for results in a concise **table** format - MAX 5 columns.
 - Otherwise, request a short text summary or bullet list as appropriate.
 
-Output ONLY the final prompt text, with no preamble or commentary.
+The aiPrompt field must contain ONLY the final prompt text, with no preamble or commentary.
+
+Also choose how often the prompt should run:
+- cron: a standard 5-field cron expression (minute hour day-of-month month day-of-week), e.g. "0 8 * * 1-5" for every weekday at 8am.
+- timezone: the IANA timezone the cron is evaluated in (e.g. "America/Los_Angeles" for "Pacific"). Use "UTC" when the user gives no location or timezone.
+- Honor any timing the user states; otherwise pick a sensible cadence for how quickly the information changes (e.g. "*/5 * * * *" for fast-moving listings, "0 9 * * *" for daily news).
+
+Also decide how the prompt should be executed:
+- executionMode: "browser" when the task needs interactive browsing of a real website that web search cannot see (e.g. Facebook Marketplace, Gametime or other sites behind logins, filters or dynamic listings); otherwise "web_search".
+
+Also describe the items the prompt will report, so results can be sorted and filtered:
+- itemSchema: when results are a list of comparable items (listings, jobs, products, tickets...), a name for one item (e.g. "listing") and up to 8 fields, each with a snake_case name, a type ("string", "number" or "boolean") and a short description. Every item already has a title and url, so do not include those. Use "number" for prices, counts and ratings.
+- When results are not a list of items (e.g. a news summary or a single status), use an empty name and no fields.
+
+Also extract any conditions the user puts on when they want to hear about results (leave conditions empty if they state none):
+- threshold: a number field compared with a value, e.g. "under $300" → { type: "threshold", field: "price", operator: "lt", value: "300" }. Operators: lt, lte, gt, gte, eq. field must be one of the itemSchema fields and of type "number".
+- contains / not_contains: text the result (or one field: title, url or an itemSchema field) must or must not include, e.g. "not interested in IKEA" → { type: "not_contains", field: "", operator: "", value: "ikea" }.
+- changed: only notify when something differs from the previous check, e.g. "tell me when the price changes" → { type: "changed", field: "price", operator: "", value: "" }. Leave field empty to compare the whole result.
+Use "" for properties a condition does not need. Do not repeat the conditions in aiPrompt as filters the agent should apply; the server checks them.
+
+Also decide whether the request is a one-off goal:
+- stopOnFirstHit: true when the user wants to hear about something once and is then done (e.g. "tell me when Taylor Swift tickets go on sale"); false for ongoing monitoring (e.g. new listings, daily news).
 
 Example:
-If the user request is "check fb marketplace for a 5 seater couch less than $500"
+If the user request is "check fb marketplace for a 5 seater couch less than $500 every weekday morning, I'm in SF"
 → Output:
-"Check Facebook Marketplace in San Francisco for recently listed 5-seater couches priced at $500 or less. Return returns in a table format with the title, price, and link to each valid listing."
+aiPrompt: "Check Facebook Marketplace in San Francisco for recently listed 5-seater couches priced at $500 or less. Return returns in a table format with the title, price, and link to each valid listing."
+cron: "0 8 * * 1-5"
+timezone: "America/Los_Angeles"
+executionMode: "browser"
+itemSchema: { name: "listing", fields: [{ name: "price", type: "number", description: "Asking price in USD" }, { name: "location", type: "string", description: "Neighborhood or city" }] }
+conditions: [{ type: "threshold", field: "price", operator: "lt", value: "500" }]
+stopOnFirstHit: false
 
 User request: ${userRequest}`;
 }
@@ -84,6 +107,39 @@ ${
 Return 
 Content: Your answer to the task in Markdown format, concise and to the point. Include this even if foundRelevantResults is false.
 foundRelevantResults: Whether the task yielded important or meaningful results
+Items: Every discrete item (listing, article, job, product...) mentioned in content, each with its title, its link (empty if none) and its key fields such as price, location or date. Leave empty if the answer is not a list of items.
+
+`;
+}
 
+/**
+ * Build an instruction that turns the browser agent's free-text transcript into the
+ * same { content, foundRelevantResults } shape produced by web-search execution.
+ */
+export function buildBrowserResultCoercionPrompt(
+  rulePrompt: string,
+  agentOutput: string
+): string {
+  return `A browser agent just executed the following task on a real website. Turn its raw output into a short answer for the user.
+
+  Task: ${rulePrompt}
+
+______________________________________________________________________________
+Agent output:
+${agentOutput || "(the agent produced no output)"}
+END OF AGENT OUTPUT
+______________________________________________________________________________
+
+Guidelines:
+- Only use information present in the agent output; do not invent listings, prices or links
+- Drop the agent's narration about clicking, scrolling or navigating
+- Format the content using Markdown (bold, bullet points, [link text](url), tables for listings) and keep it casual and easy to scan
+- If the agent found meaningful results for the task, mark it as relevant
+- If the agent failed, was blocked, or found nothing noteworthy, summarize what happened in content and mark it as not relevant
+
+Return
+Content: Your answer to the task in Markdown format, concise and to the point. Include this even if foundRelevantResults is false.
+foundRelevantResults: Whether the task yielded important or meaningful results
+Items: Every discrete item (listing, article, job, product...) in content, each with its title, its link exactly as the agent found it (empty if none) and its key fields such as price, location or date. Leave empty if the answer is not a list of items.
 `;
 }
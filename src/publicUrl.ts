@@ -0,0 +1,113 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+/**
+ * Checks for URLs the server fetches on a user's behalf (webhooks), so a user cannot
+ * make it call loopback, link-local (cloud metadata) or private network addresses.
+ */
+
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // IPv4-mapped, which would otherwise reach any IPv4 address
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is in a loopback, private, link-local or otherwise
+ * non-public range.
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+  return blocked.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export interface ResolvedUrl {
+  url: URL;
+  // Every address the host resolved to, all of them public
+  addresses: LookupAddress[];
+}
+
+/**
+ * Resolve an http(s) URL whose host must resolve only to public addresses. The
+ * addresses are returned so the caller can connect to exactly those: resolving
+ * the host again could get a different, private answer (DNS rebinding).
+ */
+export async function resolvePublicUrl(
+  raw: string
+): Promise<{ data: ResolvedUrl | null; error: string | null }> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return { data: null, error: "must be an http(s) URL" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { data: null, error: "must be an http(s) URL" };
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return { data: null, error: `host ${host} could not be resolved` };
+  }
+  if (
+    !addresses.length ||
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    return {
+      data: null,
+      error: `host ${host} resolves to a private or reserved address`,
+    };
+  }
+  return { data: { url, addresses }, error: null };
+}
+
+/**
+ * Validate an http(s) URL whose host resolves only to public addresses.
+ * Returns an error message, or null when the URL is allowed.
+ */
+export async function validatePublicUrl(raw: string): Promise<string | null> {
+  return (await resolvePublicUrl(raw)).error;
+}
+
+/**
+ * A lookup for http(s).request that answers with already validated addresses
+ * instead of asking DNS again.
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      const [{ address, family }] = addresses;
+      callback(null, address, family);
+    }
+  };
+}
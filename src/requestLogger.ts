@@ -0,0 +1,40 @@
+import { randomUUID } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { logger, withLogContext } from "./logger.js";
+
+// Accept a caller's id (e.g. from a proxy) only if it looks like one
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request an id (the incoming X-Request-Id, or a new one), echo it in
+ * the response, and log everything handled for the request with it. QStash
+ * deliveries also carry their Upstash message id. Logs one entry per request
+ * once the response is sent; the query string is left out since it can carry
+ * an access token.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header("x-request-id");
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const messageId = req.header("upstash-message-id");
+
+  req.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+
+  const startedAt = Date.now();
+  withLogContext({ requestId, ...(messageId ? { messageId } : {}) }, () => {
+    res.on("finish", () => {
+      const status = res.statusCode;
+      logger[status >= 500 ? "error" : status >= 400 ? "warn" : "info"](
+        "Request completed",
+        {
+          method: req.method,
+          path: req.originalUrl.split("?")[0],
+          status,
+          durationMs: Date.now() - startedAt,
+        }
+      );
+    });
+    next();
+  });
+}
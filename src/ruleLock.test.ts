@@ -0,0 +1,182 @@
+import "./testEnv.js";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import { describe, it } from "node:test";
+import { db } from "./db/repositories.js";
+import { ruleService } from "./services/ruleService.js";
+import { createTestRule, itemsResult, queueAnswers } from "./testRules.js";
+
+function execute(
+  ruleId: string,
+  trigger: "schedule" | "manual",
+  messageId?: string
+) {
+  return ruleService.handleExecute({ messageId, body: { ruleId, trigger } });
+}
+
+async function runsOf(ruleId: string) {
+  const { data } = await db.runs.getRunsByRuleId(ruleId, 100, 0);
+  return data!.runs;
+}
+
+/**
+ * Queue an answer that holds the execution until released, so other deliveries
+ * can arrive while the rule's lock is held.
+ */
+function queueHeldAnswer() {
+  let started!: () => void;
+  let release!: () => void;
+  const running = new Promise<void>((resolve) => (started = resolve));
+  const released = new Promise<void>((resolve) => (release = resolve));
+  queueAnswers(async () => {
+    started();
+    await released;
+    return itemsResult([{ title: "3BR house" }]);
+  });
+  return { running, release };
+}
+
+describe("rule lock", () => {
+  it("is held by one token until released", async () => {
+    const rule = await createTestRule();
+    const first = await db.rules.acquireRuleLock(rule.id!, "a", 60_000);
+    const second = await db.rules.acquireRuleLock(rule.id!, "b", 60_000);
+    assert.equal(first.acquired, true);
+    assert.equal(second.acquired, false);
+
+    // Releasing with another token leaves the lock in place
+    await db.rules.releaseRuleLock(rule.id!, "b");
+    assert.equal(
+      (await db.rules.acquireRuleLock(rule.id!, "c", 60_000)).acquired,
+      false
+    );
+    await db.rules.releaseRuleLock(rule.id!, "a");
+    assert.equal(
+      (await db.rules.acquireRuleLock(rule.id!, "c", 60_000)).acquired,
+      true
+    );
+  });
+
+  it("can be taken over once it expires", async () => {
+    const rule = await createTestRule();
+    await db.rules.acquireRuleLock(rule.id!, "a", 1);
+    await sleep(5);
+    assert.equal(
+      (await db.rules.acquireRuleLock(rule.id!, "b", 60_000)).acquired,
+      true
+    );
+  });
+
+  it("turns away deliveries that arrive while a run holds it", async () => {
+    const rule = await createTestRule();
+    const held = queueHeldAnswer();
+    const first = execute(rule.id!, "schedule", "msg_first");
+    await held.running;
+
+    // Manual and immediate triggers get a retryable conflict
+    const manual = await execute(rule.id!, "manual");
+    assert.equal(manual.status, 409);
+
+    // A redelivery of the running message is retried later, not dropped
+    const redelivery = await execute(rule.id!, "schedule", "msg_first");
+    assert.equal(redelivery.status, 503);
+
+    // An overlapping tick is dropped, without claiming its message id
+    const tick = await execute(rule.id!, "schedule", "msg_tick");
+    assert.equal(tick.status, 200);
+    assert.equal(tick.body.skipped, "running");
+    const { data: tickRuns } = await db.runs.getRunsByMessageId("msg_tick");
+    assert.deepEqual(tickRuns, []);
+
+    held.release();
+    const { status, body } = await first;
+    assert.equal(status, 200, JSON.stringify(body));
+    assert.equal(body.ok, true);
+
+    const runs = await runsOf(rule.id!);
+    assert.deepEqual(runs.map((run) => run.status).sort(), [
+      "skipped",
+      "succeeded",
+    ]);
+    assert.equal(
+      runs.find((run) => run.status === "skipped")!.error,
+      "Previous run still in progress"
+    );
+
+    // The lock was released, so the next delivery runs
+    queueAnswers(itemsResult([]));
+    assert.equal((await execute(rule.id!, "manual")).body.ok, true);
+  });
+
+  it("is released when the run fails", async () => {
+    const rule = await createTestRule();
+    queueAnswers(new Error("Model unavailable"), itemsResult([]));
+    assert.equal((await execute(rule.id!, "manual")).status, 500);
+    const { status, body } = await execute(rule.id!, "manual");
+    assert.equal(status, 200, JSON.stringify(body));
+  });
+});
+
+describe("message id dedupe", () => {
+  it("does not run a message again once it has been handled", async () => {
+    const rule = await createTestRule();
+    const messageId = `msg_${randomUUID()}`;
+    queueAnswers(itemsResult([{ title: "3BR house" }]));
+    const first = await execute(rule.id!, "schedule", messageId);
+    assert.equal(first.status, 200);
+
+    // No answer is queued: running the message again would fail
+    const again = await execute(rule.id!, "schedule", messageId);
+    assert.equal(again.status, 200);
+    assert.equal(again.body.duplicate, true);
+    assert.equal(again.body.runId, first.body.runId);
+    assert.equal((await runsOf(rule.id!)).length, 1);
+    const { data: refreshed } = await db.rules.getRuleById(rule.id!);
+    assert.equal(refreshed!.run_count, 1);
+  });
+
+  it("treats a message whose run was skipped as handled", async () => {
+    const rule = await createTestRule();
+    await db.rules.updateRuleStatus(rule.id!, "paused");
+    const messageId = `msg_${randomUUID()}`;
+    assert.equal(
+      (await execute(rule.id!, "schedule", messageId)).body.skipped,
+      "paused"
+    );
+    await db.rules.updateRuleStatus(rule.id!, "active");
+    const again = await execute(rule.id!, "schedule", messageId);
+    assert.equal(again.body.duplicate, true);
+  });
+
+  it("runs a message again when its earlier run never finished", async () => {
+    const rule = await createTestRule();
+    const messageId = `msg_${randomUUID()}`;
+    // A run left "running" by a process that died, its lock since expired
+    await db.runs.createRun({
+      rule_id: rule.id!,
+      user_id: rule.user_id,
+      trigger: "schedule",
+      message_id: messageId,
+    });
+    queueAnswers(itemsResult([]));
+    const { status, body } = await execute(rule.id!, "schedule", messageId);
+    assert.equal(status, 200, JSON.stringify(body));
+    assert.equal(body.duplicate, undefined);
+    const { data: messageRuns } = await db.runs.getRunsByMessageId(messageId);
+    assert.deepEqual(messageRuns!.map((run) => run.status).sort(), [
+      "running",
+      "succeeded",
+    ]);
+  });
+
+  it("runs a failed message again", async () => {
+    const rule = await createTestRule();
+    const messageId = `msg_${randomUUID()}`;
+    queueAnswers(new Error("Model unavailable"), itemsResult([]));
+    assert.equal((await execute(rule.id!, "schedule", messageId)).status, 500);
+    const retried = await execute(rule.id!, "schedule", messageId);
+    assert.equal(retried.status, 200);
+    assert.equal(retried.body.duplicate, undefined);
+  });
+});
@@ -1,18 +1,47 @@
 import express from "express";
 import type { Request, Response } from "express";
+import { requireAuth } from "./authMiddleware.js";
+import { parsePagination } from "./pagination.js";
 import { ruleService } from "./services/ruleService.js";
 
 const ruleRouter = express.Router();
 
-// GET /rule - Get all rules for a user
-ruleRouter.get("/", async (req: Request, res: Response) => {
-  const { userId } = req.query as { userId?: string };
+// POST /rule/execute - Endpoint called by QStash schedule (authenticated by signature)
+ruleRouter.post("/execute", async (req: Request, res: Response) => {
+  const signature = (req.headers["upstash-signature"] as string) || undefined;
+  type RequestWithRawBody = Request & { rawBody?: Buffer };
+  const rawBody: Buffer | undefined = (req as RequestWithRawBody).rawBody;
 
-  if (!userId) {
-    return res.status(400).json({
-      error: "Missing required query parameter: userId",
-    });
+  // Only signed scheduler deliveries may execute rules through this endpoint
+  if (!signature) {
+    return res.status(401).json({ error: "Missing upstash-signature header" });
+  }
+
+  const result = await ruleService.handleExecute({
+    rawBody,
+    signature,
+    messageId: (req.headers["upstash-message-id"] as string) || undefined,
+    body: req.body,
+  });
+
+  return res.status(result.status).json(result.body);
+});
+
+// Every other rule route acts on behalf of the authenticated user
+ruleRouter.use(requireAuth);
+
+// Any :ruleId must belong to the authenticated user; others look like missing rules
+ruleRouter.param("ruleId", async (req, res, next, ruleId: string) => {
+  const { data: rule } = await ruleService.getUserRule(ruleId, req.user!.id);
+  if (!rule) {
+    return res.status(404).json({ error: "Rule not found" });
   }
+  return next();
+});
+
+// GET /rule - Get all rules for the authenticated user
+ruleRouter.get("/", async (req: Request, res: Response) => {
+  const userId = req.user!.id;
 
   const { data, error } = await ruleService.getAllUserRules(userId);
 
@@ -26,35 +55,72 @@ ruleRouter.get("/", async (req: Request, res: Response) => {
   return res.status(200).json(data || []);
 });
 
+// GET /rule/runs?limit=&offset= - Execution history across the user's rules
+ruleRouter.get("/runs", async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+
+  const { limit, offset } = parsePagination(req.query);
+  const { data, error } = await ruleService.getRuns({ userId }, limit, offset);
+
+  if (error) {
+    return res.status(500).json({
+      error: "Failed to fetch runs",
+      details: error.message || error,
+    });
+  }
+
+  return res.status(200).json(data);
+});
+
+// GET /rule/:ruleId/runs?limit=&offset= - Execution history for a rule
+ruleRouter.get("/:ruleId/runs", async (req: Request, res: Response) => {
+  const { ruleId } = req.params;
+
+  const { limit, offset } = parsePagination(req.query);
+  const { data, error } = await ruleService.getRuns({ ruleId }, limit, offset);
+
+  if (error) {
+    return res.status(500).json({
+      error: "Failed to fetch runs",
+      details: error.message || error,
+    });
+  }
+
+  return res.status(200).json(data);
+});
+
 // POST /rule - Create a new rule and schedule execution via QStash
 ruleRouter.post("/", async (req: Request, res: Response) => {
-  const { userId, textPrompt } = req.body as {
-    userId?: string;
+  const { textPrompt } = req.body as {
     textPrompt?: string;
   };
 
   // Validate required fields
-  if (!userId || !textPrompt) {
+  if (!textPrompt) {
     return res.status(400).json({
-      error: "Missing required fields: userId and textPrompt are required",
+      error: "Missing required fields: textPrompt is required",
     });
   }
-  const result = await ruleService.handleCreate({ body: req.body });
+  const result = await ruleService.handleCreate({
+    body: { ...req.body, userId: req.user!.id },
+  });
   return res.status(result.status).json(result.body);
 });
 
-// POST /rule/execute - Endpoint called by QStash schedule
-ruleRouter.post("/execute", async (req: Request, res: Response) => {
-  const signature = (req.headers["upstash-signature"] as string) || undefined;
-  type RequestWithRawBody = Request & { rawBody?: Buffer };
-  const rawBody: Buffer | undefined = (req as RequestWithRawBody).rawBody;
+// POST /rule/preview - Generate a rule and run it once without saving or scheduling it
+ruleRouter.post("/preview", async (req: Request, res: Response) => {
+  const { textPrompt } = req.body as {
+    textPrompt?: string;
+  };
 
-  const result = await ruleService.handleExecute({
-    rawBody,
-    signature,
-    body: req.body,
+  if (!textPrompt) {
+    return res.status(400).json({
+      error: "Missing required fields: textPrompt is required",
+    });
+  }
+  const result = await ruleService.handlePreview({
+    body: { ...req.body, userId: req.user!.id },
   });
-
   return res.status(result.status).json(result.body);
 });
 
@@ -69,12 +135,64 @@ ruleRouter.post("/:ruleId/execute", async (req: Request, res: Response) => {
   }
 
   const result = await ruleService.handleExecute({
-    body: { ruleId },
+    body: { ruleId, trigger: "manual" },
   });
 
   return res.status(result.status).json(result.body);
 });
 
+// POST /rule/:ruleId/pause - Pause a rule's QStash schedule without deleting it
+ruleRouter.post("/:ruleId/pause", async (req: Request, res: Response) => {
+  const { ruleId } = req.params;
+
+  const result = await ruleService.setRuleStatus(ruleId, "paused");
+  return res.status(result.status).json(result.body);
+});
+
+// POST /rule/:ruleId/resume - Resume a paused rule
+ruleRouter.post("/:ruleId/resume", async (req: Request, res: Response) => {
+  const { ruleId } = req.params;
+
+  const result = await ruleService.setRuleStatus(ruleId, "active");
+  return res.status(result.status).json(result.body);
+});
+
+// PATCH /rule/:ruleId - Update a rule's prompt, schedule, model, execution mode, item
+// schema or alert conditions in place (itemSchema: null switches back to free-form
+// answers; conditions: [] or null removes them)
+ruleRouter.patch("/:ruleId", async (req: Request, res: Response) => {
+  const { ruleId } = req.params;
+  const updatableFields = [
+    "prompt",
+    "frequency",
+    "cron",
+    "timezone",
+    "provider",
+    "model",
+    "executionMode",
+    "itemSchema",
+    "conditions",
+    "expiresAt",
+    "maxRuns",
+    "stopOnFirstHit",
+  ];
+
+  // null and false are meaningful (clear a setting / turn it off); empty strings are not
+  const provided = updatableFields.filter(
+    (field) => req.body?.[field] !== undefined && req.body[field] !== ""
+  );
+  if (!provided.length) {
+    return res.status(400).json({
+      error: `Nothing to update: provide at least one of ${updatableFields.join(
+        ", "
+      )}`,
+    });
+  }
+
+  const result = await ruleService.handleUpdate({ ruleId, body: req.body });
+  return res.status(result.status).json(result.body);
+});
+
 // DELETE /rule/:ruleId - Delete a rule and its QStash schedule
 ruleRouter.delete("/:ruleId", async (req: Request, res: Response) => {
   const { ruleId } = req.params;
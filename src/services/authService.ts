@@ -0,0 +1,304 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  timingSafeEqual,
+} from "node:crypto";
+import { config } from "../config.js";
+import { db } from "../db/repositories.js";
+import type { LoginUser } from "../db/user.js";
+import { logger } from "../logger.js";
+import { type LoginAttemptContext, loginGuard } from "./loginGuard.js";
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Login codes are typed by hand: no 0/o, 1/l/i look-alikes. 12 characters in
+// groups of 4 give about 59 bits, far beyond what throttled guessing can reach.
+const LOGIN_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const LOGIN_CODE_GROUPS = 3;
+const LOGIN_CODE_GROUP_LENGTH = 4;
+
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+// Identity attached to an authenticated request
+export interface AuthenticatedUser {
+  id: string;
+  sessionId: string;
+}
+
+export interface LoginCodeResult {
+  user: Omit<LoginUser, "login_code_hash"> | null;
+  // Set when the IP or code is locked out; the code was not checked
+  retryAfterSeconds: number;
+}
+
+interface AccessTokenPayload {
+  sub: string; // user id
+  sid: string; // session id
+  exp: number; // unix seconds
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Codes are typed by hand, so case and surrounding whitespace do not matter
+function normalizeLoginCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+/**
+ * Issues and verifies session credentials. Access tokens are short-lived,
+ * HMAC-signed payloads; refresh tokens are opaque, stored hashed and rotated on use.
+ */
+class AuthService {
+  private secret: string;
+  private loginCodeSecret: string;
+
+  constructor() {
+    const secret = config.authTokenSecret;
+    if (!secret) {
+      throw new Error("Missing required env: AUTH_TOKEN_SECRET");
+    }
+    this.secret = secret;
+    // A separate key lets the token secret rotate without invalidating every code
+    this.loginCodeSecret = config.loginCodeSecret || secret;
+  }
+
+  /**
+   * Keyed hash of a login code, as stored in berry_users.login_code_hash. Codes are
+   * short, so a plain hash could be reversed by trying them all; the key prevents
+   * that without access to the server.
+   */
+  hashLoginCode(code: string): string {
+    return createHmac("sha256", this.loginCodeSecret)
+      .update(normalizeLoginCode(code))
+      .digest("hex");
+  }
+
+  /**
+   * Generate a new random login code, e.g. "k7pq-xm3v-d9ra", and its hash. Only
+   * the hash is stored, so the code can be shown to the admin exactly once.
+   */
+  generateLoginCode(): { code: string; hash: string } {
+    const groups = Array.from({ length: LOGIN_CODE_GROUPS }, () =>
+      Array.from(
+        { length: LOGIN_CODE_GROUP_LENGTH },
+        () => LOGIN_CODE_ALPHABET[randomInt(LOGIN_CODE_ALPHABET.length)]
+      ).join("")
+    );
+    const code = groups.join("-");
+    return { code, hash: this.hashLoginCode(code) };
+  }
+
+  /**
+   * Check a login code, subject to brute-force throttling. Only hashed codes sign
+   * in: plain text ones are migrated beforehand by the hashLoginCodes script.
+   */
+  async verifyLoginCode(
+    loginCode: string,
+    context: LoginAttemptContext
+  ): Promise<{ data: LoginCodeResult | null; error: any }> {
+    const codeHash = this.hashLoginCode(loginCode);
+
+    const { data: retryAfterSeconds, error: guardError } =
+      await loginGuard.retryAfterSeconds(context, codeHash);
+    if (guardError) return { data: null, error: guardError };
+    if (retryAfterSeconds > 0) {
+      await loginGuard.record(context, codeHash, "locked_out");
+      return { data: { user: null, retryAfterSeconds }, error: null };
+    }
+
+    let { data: user, error } = await db.users.getUserByLoginCodeHash(codeHash);
+    if (error) return { data: null, error };
+    if (
+      user?.login_code_hash &&
+      !timingSafeEqual(
+        Buffer.from(user.login_code_hash, "hex"),
+        Buffer.from(codeHash, "hex")
+      )
+    ) {
+      user = null;
+    }
+
+    await loginGuard.record(
+      context,
+      codeHash,
+      !user ? "invalid_code" : user.disabled_at ? "disabled" : "succeeded",
+      user?.id
+    );
+    if (!user)
+      return { data: { user: null, retryAfterSeconds: 0 }, error: null };
+
+    const { login_code_hash, ...profile } = user;
+    return { data: { user: profile, retryAfterSeconds: 0 }, error: null };
+  }
+
+  private sign(data: string): string {
+    return createHmac("sha256", this.secret).update(data).digest("base64url");
+  }
+
+  private createAccessToken(userId: string, sessionId: string) {
+    const exp = Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS;
+    const payload: AccessTokenPayload = { sub: userId, sid: sessionId, exp };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return {
+      token: `${encoded}.${this.sign(encoded)}`,
+      expiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+
+  private verifyAccessToken(token: string): AccessTokenPayload | null {
+    const [encoded, signature, ...rest] = token.split(".");
+    if (!encoded || !signature || rest.length) return null;
+
+    const expected = Buffer.from(this.sign(encoded));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const payload: AccessTokenPayload = JSON.parse(
+        Buffer.from(encoded, "base64url").toString("utf8")
+      );
+      if (!payload.sub || !payload.sid || payload.exp * 1000 <= Date.now()) {
+        return null;
+      }
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  private newRefreshToken() {
+    return {
+      token: randomBytes(32).toString("base64url"),
+      expiresAt: new Date(
+        Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000
+      ).toISOString(),
+    };
+  }
+
+  /**
+   * Start a new session for a user who just proved who they are
+   */
+  async issueSession(
+    userId: string
+  ): Promise<{ data: SessionTokens | null; error: any }> {
+    const refresh = this.newRefreshToken();
+    const { data: session, error } = await db.sessions.createSession({
+      user_id: userId,
+      refresh_token_hash: hashToken(refresh.token),
+      expires_at: refresh.expiresAt,
+    });
+    if (error || !session?.id) {
+      return { data: null, error: error || "Failed to create session" };
+    }
+
+    const access = this.createAccessToken(userId, session.id);
+    return {
+      data: {
+        accessToken: access.token,
+        accessTokenExpiresAt: access.expiresAt,
+        refreshToken: refresh.token,
+        refreshTokenExpiresAt: refresh.expiresAt,
+      },
+      error: null,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token. The refresh token is rotated,
+   * so each one can only be used once; presenting a rotated-out token again means
+   * it leaked, and revokes the whole session.
+   */
+  async refreshSession(
+    refreshToken: string
+  ): Promise<{ data: SessionTokens | null; error: any }> {
+    const tokenHash = hashToken(refreshToken);
+    const { data: session, error } =
+      await db.sessions.getSessionByRefreshTokenHash(tokenHash);
+    if (error) return { data: null, error };
+    if (!session) {
+      return { data: null, error: await this.revokeOnReuse(tokenHash) };
+    }
+    if (
+      !session?.id ||
+      session.revoked_at ||
+      new Date(session.expires_at).getTime() <= Date.now()
+    ) {
+      return { data: null, error: null };
+    }
+
+    const refresh = this.newRefreshToken();
+    const { data: rotated, error: rotateError } =
+      await db.sessions.rotateSessionRefreshToken(
+        session.id,
+        tokenHash,
+        hashToken(refresh.token),
+        refresh.expiresAt
+      );
+    // No row: a concurrent refresh with the same token rotated it first
+    if (rotateError || !rotated) {
+      return { data: null, error: rotateError };
+    }
+
+    const access = this.createAccessToken(session.user_id, session.id);
+    return {
+      data: {
+        accessToken: access.token,
+        accessTokenExpiresAt: access.expiresAt,
+        refreshToken: refresh.token,
+        refreshTokenExpiresAt: refresh.expiresAt,
+      },
+      error: null,
+    };
+  }
+
+  // Revoke the session a rotated-out refresh token belonged to, if any
+  private async revokeOnReuse(tokenHash: string): Promise<any> {
+    const { data: session, error } =
+      await db.sessions.getSessionByPreviousRefreshTokenHash(tokenHash);
+    if (error || !session?.id || session.revoked_at) return error;
+
+    logger.warn("Rotated-out refresh token reused, revoking session", {
+      sessionId: session.id,
+      userId: session.user_id,
+    });
+    const { error: revokeError } = await db.sessions.revokeSession(session.id);
+    return revokeError;
+  }
+
+  /**
+   * Resolve an access token to the user it was issued to, or null if the token is
+   * invalid, expired, or its session has been revoked (logout).
+   */
+  async authenticate(accessToken: string): Promise<AuthenticatedUser | null> {
+    const payload = this.verifyAccessToken(accessToken);
+    if (!payload) return null;
+
+    const { data: session } = await db.sessions.getSessionById(payload.sid);
+    if (!session || session.revoked_at || session.user_id !== payload.sub) {
+      return null;
+    }
+
+    return { id: payload.sub, sessionId: payload.sid };
+  }
+
+  async logout(sessionId: string): Promise<{ success: boolean; error: any }> {
+    return db.sessions.revokeSession(sessionId);
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,215 @@
+import { createHmac } from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import nodemailer, { type Transporter } from "nodemailer";
+import webpush from "web-push";
+import { config } from "../config.js";
+import type { ChannelName, PreferenceFields } from "../db/delivery.js";
+import { db } from "../db/repositories.js";
+import {
+  pinnedLookup,
+  type ResolvedUrl,
+  resolvePublicUrl,
+} from "../publicUrl.js";
+import type { NotificationRecord } from "./notificationService.js";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface DeliveryChannel {
+  name: ChannelName;
+  // Whether the server has the credentials this channel needs
+  isConfigured(): boolean;
+  // Whether the user's effective preferences turn this channel on
+  isEnabled(preferences: PreferenceFields): boolean;
+  // Send the notification; throws on failure so the attempt is recorded for retry
+  send(
+    notification: NotificationRecord,
+    preferences: PreferenceFields
+  ): Promise<void>;
+}
+
+function notificationText(notification: NotificationRecord): string {
+  const result = notification.payload?.result;
+  return typeof result === "string" ? result : JSON.stringify(result ?? "");
+}
+
+let mailTransport: Transporter | null = null;
+
+/**
+ * SMTP email, configured through SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS/SMTP_FROM.
+ */
+export const emailChannel: DeliveryChannel = {
+  name: "email",
+  isConfigured() {
+    return Boolean(config.smtp.host && config.smtp.from);
+  },
+  isEnabled(preferences) {
+    return Boolean(preferences.email_enabled && preferences.email_address);
+  },
+  async send(notification, preferences) {
+    if (!mailTransport) {
+      const { host, port, user, pass } = config.smtp;
+      mailTransport = nodemailer.createTransport({
+        host,
+        port,
+        secure: port === 465,
+        auth: user ? { user, pass } : undefined,
+      });
+    }
+    await mailTransport.sendMail({
+      from: config.smtp.from,
+      to: preferences.email_address!,
+      subject: "Berry found new results",
+      text: notificationText(notification),
+    });
+  },
+};
+
+let vapidConfigured = false;
+
+/**
+ * Web Push to every browser the user subscribed, signed with VAPID_PUBLIC_KEY/
+ * VAPID_PRIVATE_KEY. Subscriptions the push service reports as gone are removed.
+ */
+export const pushChannel: DeliveryChannel = {
+  name: "push",
+  isConfigured() {
+    return Boolean(config.vapid.publicKey && config.vapid.privateKey);
+  },
+  isEnabled(preferences) {
+    return Boolean(preferences.push_enabled);
+  },
+  async send(notification) {
+    if (!vapidConfigured) {
+      webpush.setVapidDetails(
+        config.vapid.subject,
+        config.vapid.publicKey!,
+        config.vapid.privateKey!
+      );
+      vapidConfigured = true;
+    }
+
+    const { data: subscriptions, error } =
+      await db.deliveries.getPushSubscriptions(notification.user_id);
+    if (error) throw error;
+    if (!subscriptions?.length) {
+      throw new Error("No push subscriptions registered");
+    }
+
+    const payload = JSON.stringify({
+      title: "Berry found new results",
+      body: notificationText(notification).slice(0, 200),
+      notificationId: notification.id,
+      ruleId: notification.rule_id,
+    });
+
+    const results = await Promise.allSettled(
+      subscriptions.map((subscription) =>
+        webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          payload
+        )
+      )
+    );
+
+    let lastError: unknown = null;
+    await Promise.all(
+      results.map(async (result, index) => {
+        if (result.status === "fulfilled") return;
+        lastError = result.reason;
+        const statusCode = (result.reason as any)?.statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          await db.deliveries.deletePushSubscription(
+            subscriptions[index].endpoint
+          );
+        }
+      })
+    );
+
+    // Delivered if at least one device accepted it
+    if (results.every((result) => result.status === "rejected")) {
+      throw lastError ?? new Error("Push delivery failed");
+    }
+  },
+};
+
+/**
+ * POST a body to a resolved URL, connecting only to the addresses it was validated
+ * against. Redirects are not followed. Resolves with the response status.
+ */
+function postToResolvedUrl(
+  { url, addresses }: ResolvedUrl,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; statusText: string }> {
+  const transport = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinnedLookup(addresses),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve({
+          status: response.statusCode ?? 0,
+          statusText: response.statusMessage ?? "",
+        });
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Generic HTTP webhook. When the user set a secret, the JSON body is signed with
+ * HMAC-SHA256 in the X-Berry-Signature header. The host is re-checked on every send
+ * (DNS may have changed since the URL was saved), the request goes to the checked
+ * addresses rather than a fresh lookup, and redirects are not followed, so a
+ * webhook cannot reach private addresses.
+ */
+export const webhookChannel: DeliveryChannel = {
+  name: "webhook",
+  isConfigured() {
+    return true;
+  },
+  isEnabled(preferences) {
+    return Boolean(preferences.webhook_enabled && preferences.webhook_url);
+  },
+  async send(notification, preferences) {
+    const { data: resolved, error: urlError } = await resolvePublicUrl(
+      preferences.webhook_url!
+    );
+    if (!resolved) throw new Error(`Webhook URL ${urlError}`);
+
+    const body = JSON.stringify({
+      event: "notification.created",
+      notification,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (preferences.webhook_secret) {
+      headers["X-Berry-Signature"] = `sha256=${createHmac(
+        "sha256",
+        preferences.webhook_secret
+      )
+        .update(body)
+        .digest("hex")}`;
+    }
+
+    const response = await postToResolvedUrl(resolved, headers, body);
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(
+        `Webhook responded ${response.status} ${response.statusText}`
+      );
+    }
+  },
+};
@@ -0,0 +1,313 @@
+import type {
+  ChannelName,
+  DeliveryRecord,
+  NotificationPreferences,
+  PreferenceFields,
+  PushSubscriptionRecord,
+} from "../db/delivery.js";
+import { db } from "../db/repositories.js";
+import { logger } from "../logger.js";
+import { validatePublicUrl } from "../publicUrl.js";
+import {
+  type DeliveryChannel,
+  emailChannel,
+  pushChannel,
+  webhookChannel,
+} from "./deliveryChannels.js";
+import {
+  type NotificationRecord,
+  notificationService,
+} from "./notificationService.js";
+import { scheduler } from "./schedulerService.js";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BATCH_SIZE = 50;
+// How often due deliveries are retried; the backoff starts at one minute
+const RETRY_CRON = "*/5 * * * *";
+
+const PREFERENCE_FIELDS: (keyof PreferenceFields)[] = [
+  "email_enabled",
+  "email_address",
+  "push_enabled",
+  "webhook_enabled",
+  "webhook_url",
+  "webhook_secret",
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validate the preference fields of a PUT body and keep only those. Null clears a
+ * field; anything else must have the field's type, and webhook URLs must point at
+ * a public host.
+ */
+export async function parsePreferenceFields(
+  body: unknown
+): Promise<{ fields: PreferenceFields } | { error: string }> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Body must be a JSON object" };
+  }
+  const input = body as Record<string, unknown>;
+  const fields: PreferenceFields = {};
+
+  for (const field of PREFERENCE_FIELDS) {
+    if (!(field in input)) continue;
+    const value = input[field];
+    if (value === null) {
+      (fields as any)[field] = null;
+      continue;
+    }
+
+    if (field.endsWith("_enabled")) {
+      if (typeof value !== "boolean") {
+        return { error: `${field} must be a boolean` };
+      }
+    } else if (typeof value !== "string" || !value) {
+      return { error: `${field} must be a non-empty string` };
+    } else if (field === "email_address") {
+      if (value.length > 254 || !EMAIL_PATTERN.test(value)) {
+        return { error: "email_address must be an email address" };
+      }
+    } else if (field === "webhook_url") {
+      const urlError =
+        value.length > 2048 ? "is too long" : await validatePublicUrl(value);
+      if (urlError) return { error: `webhook_url ${urlError}` };
+    } else if (field === "webhook_secret" && value.length > 256) {
+      return { error: "webhook_secret must be at most 256 characters" };
+    }
+    (fields as any)[field] = value;
+  }
+
+  return { fields };
+}
+
+/**
+ * Merge the user's defaults with a rule's overrides (any field the rule sets wins).
+ */
+function mergePreferences(
+  user: NotificationPreferences | null,
+  rule: NotificationPreferences | null
+): PreferenceFields {
+  const merged: PreferenceFields = {};
+  for (const field of PREFERENCE_FIELDS) {
+    const value = rule?.[field] ?? user?.[field] ?? null;
+    (merged as any)[field] = value;
+  }
+  return merged;
+}
+
+// Exponential backoff: 1, 2, 4, 8... minutes after each failed attempt
+function nextAttemptAt(attempts: number): string {
+  return new Date(Date.now() + 2 ** (attempts - 1) * 60_000).toISOString();
+}
+
+/**
+ * Fans a stored notification out to the user's enabled channels (email, Web Push,
+ * webhook) and records every attempt in berry_notification_deliveries so failures
+ * can be retried.
+ */
+class DeliveryService {
+  private channels = new Map<ChannelName, DeliveryChannel>();
+
+  constructor() {
+    this.registerChannel(emailChannel);
+    this.registerChannel(pushChannel);
+    this.registerChannel(webhookChannel);
+  }
+
+  registerChannel(channel: DeliveryChannel) {
+    this.channels.set(channel.name, channel);
+  }
+
+  private async attempt(
+    channel: DeliveryChannel,
+    notification: NotificationRecord,
+    preferences: PreferenceFields
+  ): Promise<{ ok: boolean; error: string | null }> {
+    try {
+      await channel.send(notification, preferences);
+      return { ok: true, error: null };
+    } catch (error) {
+      logger.error("Delivery failed", {
+        channel: channel.name,
+        notificationId: notification.id,
+        error,
+      });
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Deliver a freshly created notification over every channel the user (or the
+   * rule's overrides) enabled. Never throws: failures are recorded for retry.
+   */
+  async deliver(notification: NotificationRecord): Promise<DeliveryRecord[]> {
+    if (!notification.id) return [];
+    try {
+      const { data: stored, error } = await db.deliveries.getPreferences(
+        notification.user_id,
+        notification.rule_id
+      );
+      if (error || !stored) return [];
+      const preferences = mergePreferences(stored.user, stored.rule);
+
+      const enabled = [...this.channels.values()].filter((channel) => {
+        if (!channel.isEnabled(preferences)) return false;
+        if (!channel.isConfigured()) {
+          logger.warn("Skipping delivery: channel not configured", {
+            channel: channel.name,
+          });
+          return false;
+        }
+        return true;
+      });
+
+      const deliveries = await Promise.all(
+        enabled.map(async (channel) => {
+          const result = await this.attempt(channel, notification, preferences);
+          const { data } = await db.deliveries.createDelivery({
+            notification_id: notification.id!,
+            user_id: notification.user_id,
+            channel: channel.name,
+            status: result.ok ? "sent" : "failed",
+            attempts: 1,
+            last_error: result.error,
+            next_attempt_at: result.ok ? null : nextAttemptAt(1),
+            delivered_at: result.ok ? new Date().toISOString() : null,
+          });
+          return data;
+        })
+      );
+      return deliveries.filter((d): d is DeliveryRecord => Boolean(d));
+    } catch (error) {
+      logger.error("Unexpected error delivering notification", { error });
+      return [];
+    }
+  }
+
+  /**
+   * Retry failed deliveries that are due, optionally only one user's. Deliveries
+   * over a channel the user has since turned off are dropped instead.
+   * Returns how many were retried and how many succeeded.
+   */
+  async retryFailedDeliveries(
+    userId?: string
+  ): Promise<{ data: { retried: number; sent: number } | null; error: any }> {
+    const { data: due, error } = await db.deliveries.getRetryableDeliveries(
+      MAX_ATTEMPTS,
+      RETRY_BATCH_SIZE,
+      userId
+    );
+    if (error || !due) return { data: null, error };
+
+    let retried = 0;
+    let sent = 0;
+    for (const delivery of due) {
+      const channel = this.channels.get(delivery.channel);
+      const { data: notification } =
+        await notificationService.getNotificationById(
+          delivery.user_id,
+          delivery.notification_id
+        );
+      const { data: stored } = await db.deliveries.getPreferences(
+        delivery.user_id,
+        notification?.rule_id
+      );
+      const preferences = stored
+        ? mergePreferences(stored.user, stored.rule)
+        : null;
+
+      if (channel && preferences && !channel.isEnabled(preferences)) {
+        await db.deliveries.updateDelivery(delivery.id!, {
+          last_error: "Channel disabled since the last attempt",
+          next_attempt_at: null,
+        });
+        continue;
+      }
+
+      const attempts = delivery.attempts + 1;
+      const result =
+        channel && notification && preferences
+          ? await this.attempt(channel, notification, preferences)
+          : { ok: false, error: "Notification or channel no longer available" };
+
+      retried += 1;
+      if (result.ok) sent += 1;
+      await db.deliveries.updateDelivery(delivery.id!, {
+        status: result.ok ? "sent" : "failed",
+        attempts,
+        last_error: result.error,
+        next_attempt_at:
+          result.ok || attempts >= MAX_ATTEMPTS
+            ? null
+            : nextAttemptAt(attempts),
+        delivered_at: result.ok ? new Date().toISOString() : null,
+      });
+    }
+
+    return { data: { retried, sent }, error: null };
+  }
+
+  /**
+   * Have the scheduler retry every user's due deliveries every few minutes, through
+   * POST /notifications/deliveries/retry-due on QStash. Safe to call on every start.
+   */
+  async scheduleRetries(): Promise<{ success: boolean; error: any }> {
+    try {
+      await scheduler.scheduleJob({
+        name: "retry-deliveries",
+        cron: RETRY_CRON,
+        path: "/notifications/deliveries/retry-due",
+        run: () => this.retryFailedDeliveries(),
+      });
+      return { success: true, error: null };
+    } catch (error) {
+      logger.error("Failed to schedule delivery retries", { error });
+      return { success: false, error };
+    }
+  }
+
+  async getDeliveries(notificationId: number) {
+    return db.deliveries.getDeliveriesByNotificationId(notificationId);
+  }
+
+  /**
+   * The user's stored defaults and, if ruleId is given, that rule's overrides and
+   * the effective merge of both.
+   */
+  async getPreferences(userId: string, ruleId?: string) {
+    const { data, error } = await db.deliveries.getPreferences(userId, ruleId);
+    if (error || !data) return { data: null, error };
+    return {
+      data: { ...data, effective: mergePreferences(data.user, data.rule) },
+      error: null,
+    };
+  }
+
+  async updatePreferences(
+    userId: string,
+    ruleId: string | null,
+    fields: PreferenceFields
+  ) {
+    const picked: PreferenceFields = {};
+    for (const field of PREFERENCE_FIELDS) {
+      if (field in fields) (picked as any)[field] = fields[field];
+    }
+    return db.deliveries.upsertPreferences(userId, ruleId, picked);
+  }
+
+  async addPushSubscription(
+    subscription: Omit<PushSubscriptionRecord, "id" | "created_at">
+  ) {
+    return db.deliveries.savePushSubscription(subscription);
+  }
+
+  async removePushSubscription(userId: string, endpoint: string) {
+    return db.deliveries.deletePushSubscription(endpoint, userId);
+  }
+}
+
+export const deliveryService = new DeliveryService();
@@ -0,0 +1,143 @@
+import { config } from "../config.js";
+import { checkConnection as checkSupabaseConnection } from "../db/client.js";
+import { checkBrowserInstalled } from "./operatorService.js";
+import { scheduler } from "./schedulerService.js";
+
+const CHECK_TIMEOUT_MS = 5_000;
+
+export type CheckStatus = "ok" | "failed";
+
+export interface CheckResult {
+  status: CheckStatus;
+  // Required checks decide readiness; optional ones only affect some rules
+  required: boolean;
+  durationMs: number;
+  detail?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+type Check = () => Promise<{ success: boolean; detail?: string }>;
+
+function describeError(error: any): string {
+  return error?.message || String(error);
+}
+
+async function runCheck(check: Check, required: boolean): Promise<CheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const { success, detail } = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return {
+      status: success ? "ok" : "failed",
+      required,
+      durationMs: Date.now() - startedAt,
+      ...(detail ? { detail } : {}),
+    };
+  } catch (error) {
+    return {
+      status: "failed",
+      required,
+      durationMs: Date.now() - startedAt,
+      detail: describeError(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// An API key is all a provider needs up front; replayed fixtures need none
+function apiKeyCheck(variable: string, key: string | undefined): Check {
+  return async () => {
+    if (config.llmFixtures === "replay") {
+      return { success: true, detail: "replaying fixtures" };
+    }
+    return key
+      ? { success: true }
+      : { success: false, detail: `${variable} is not set` };
+  };
+}
+
+/**
+ * Liveness and readiness probes. Readiness checks every external dependency the
+ * server uses, concurrently and each with a timeout, so one hanging service cannot
+ * hang the probe.
+ */
+class HealthService {
+  private checks(): Record<string, { check: Check; required: boolean }> {
+    return {
+      database: {
+        required: true,
+        check: async () => {
+          if (config.storageBackend === "memory") {
+            return { success: true, detail: "in-memory storage" };
+          }
+          const { success, error } = await checkSupabaseConnection();
+          return success
+            ? { success }
+            : { success, detail: describeError(error) };
+        },
+      },
+      scheduler: {
+        required: true,
+        check: async () => {
+          const { success, error } = await scheduler.checkConnection();
+          return {
+            success,
+            detail: success
+              ? `${config.schedulerBackend} scheduler`
+              : describeError(error),
+          };
+        },
+      },
+      openai: {
+        required: true,
+        check: apiKeyCheck("OPENAI_API_KEY", config.openaiApiKey),
+      },
+      // Only rules that run in perplexity mode need it
+      perplexity: {
+        required: false,
+        check: apiKeyCheck("PERPLEXITY_API_KEY", config.perplexityApiKey),
+      },
+      // Only computer-use rules need a browser
+      browser: {
+        required: false,
+        check: async () => {
+          const problem = checkBrowserInstalled();
+          return problem
+            ? { success: false, detail: problem }
+            : { success: true };
+        },
+      },
+    };
+  }
+
+  async getReadiness(): Promise<ReadinessReport> {
+    const entries = await Promise.all(
+      Object.entries(this.checks()).map(
+        async ([name, { check, required }]) =>
+          [name, await runCheck(check, required)] as const
+      )
+    );
+    const checks = Object.fromEntries(entries);
+    return {
+      ready: entries.every(
+        ([, result]) => !result.required || result.status === "ok"
+      ),
+      checks,
+    };
+  }
+}
+
+export const healthService = new HealthService();
@@ -0,0 +1,151 @@
+import { llmRequestDuration, llmTokens } from "../metrics.js";
+import { computerUseProvider } from "./operatorService.js";
+import { openaiProvider } from "./openaiService.js";
+import { perplexityProvider } from "./perplexityService.js";
+
+/**
+ * Common request/response contract shared by every LLM backend, plus a registry
+ * so rules can name the provider/model they run on.
+ */
+
+// Tools a request may ask for; each provider maps them to its own tool format
+export type LLMTool = "web_search" | "browser";
+
+export interface LLMRequest {
+  prompt: string;
+  model?: string;
+  // JSON schema for structured output; when set, `output` is the parsed object
+  schema?: Record<string, any>;
+  tools?: LLMTool[];
+  // Epoch ms after which a long-running provider (the browser agent) gives up
+  deadline?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse<T = any> {
+  provider: string;
+  model: string;
+  text: string;
+  output: T;
+  usage: LLMUsage | null;
+}
+
+// List prices in USD per million tokens
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  supportsStructuredOutput: boolean;
+  // Keyed by model name; a dated snapshot of a listed model uses its price
+  pricing?: Record<string, ModelPricing>;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export const DEFAULT_PROVIDER = "openai";
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: string): LLMProvider | undefined {
+  return providers.get(name);
+}
+
+export function listProviders(): LLMProvider[] {
+  return [...providers.values()];
+}
+
+// A dated snapshot of a model, e.g. "gpt-4.1-2025-04-14"
+const SNAPSHOT_SUFFIX = /^-\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The model family a model name belongs to: the pricing key it equals or is a
+ * dated snapshot of (e.g. "gpt-4.1-2025-04-14" is "gpt-4.1"). Undefined for models
+ * the provider does not list, including variants such as "gpt-5-pro".
+ */
+export function modelFamily(
+  provider: LLMProvider,
+  model: string
+): string | undefined {
+  return Object.keys(provider.pricing ?? {}).find(
+    (key) =>
+      model === key ||
+      (model.startsWith(key) && SNAPSHOT_SUFFIX.test(model.slice(key.length)))
+  );
+}
+
+/**
+ * Estimated cost in USD of one response, from its token usage and the provider's
+ * list prices for the model's family. Tool fees such as web search calls are not
+ * included. Null when usage or pricing is unknown.
+ */
+export function estimateCost(response: LLMResponse): number | null {
+  const provider = providers.get(response.provider);
+  if (!response.usage || !provider?.pricing) return null;
+
+  const family = modelFamily(provider, response.model);
+  if (!family) return null;
+
+  const price = provider.pricing[family];
+  return (
+    (response.usage.inputTokens * price.inputPerMillion +
+      response.usage.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Run a request on the named provider (DEFAULT_PROVIDER if omitted), falling
+ * back to the provider's default model.
+ */
+export async function complete<T = any>(
+  providerName: string | undefined,
+  request: LLMRequest
+): Promise<LLMResponse<T>> {
+  const name = providerName || DEFAULT_PROVIDER;
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider: ${name}. Use one of ${[...providers.keys()].join(
+        ", "
+      )}`
+    );
+  }
+  if (request.schema && !provider.supportsStructuredOutput) {
+    throw new Error(`LLM provider ${name} does not support structured output`);
+  }
+  const model = request.model || provider.defaultModel;
+  // Labelled by model family so arbitrary model names cannot add metric series
+  const labels = {
+    provider: name,
+    model: modelFamily(provider, model) ?? "other",
+  };
+  const stopTimer = llmRequestDuration.startTimer(labels);
+  try {
+    const response = await provider.complete({ ...request, model });
+    stopTimer({ status: "ok" });
+    if (response.usage) {
+      llmTokens.inc({ ...labels, type: "input" }, response.usage.inputTokens);
+      llmTokens.inc({ ...labels, type: "output" }, response.usage.outputTokens);
+    }
+    return response;
+  } catch (error) {
+    stopTimer({ status: "error" });
+    throw error;
+  }
+}
+
+registerProvider(openaiProvider);
+registerProvider(perplexityProvider);
+registerProvider(computerUseProvider);
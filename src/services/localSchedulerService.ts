@@ -0,0 +1,264 @@
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "../config.js";
+import {
+  DEFAULT_TIMEZONE,
+  describeZonedCron,
+  matchesCron,
+  validateCron,
+  withCronTimeZone,
+} from "../cron.js";
+import type { RunTrigger } from "../db/run.js";
+import { logger } from "../logger.js";
+import type {
+  ScheduleDetails,
+  Scheduler,
+  SchedulerJob,
+} from "./schedulerService.js";
+
+interface LocalSchedule {
+  scheduleId: string;
+  ruleId: string;
+  cron: string;
+  timezone: string;
+  paused: boolean;
+  createdAt: string;
+}
+
+/**
+ * In-process scheduler for running the full rule lifecycle without Upstash
+ * (laptop, CI). Schedules are persisted to a JSON file so they survive restarts,
+ * and every minute the due ones are executed directly via ruleService.handleExecute.
+ */
+export class LocalScheduler implements Scheduler {
+  private schedules = new Map<string, LocalSchedule>();
+  // Registered again by each process at startup, so not persisted
+  private jobs = new Map<string, SchedulerJob>();
+  private filePath: string;
+  private timer: NodeJS.Timeout | null = null;
+  private lastTickMinute: number | null = null;
+
+  constructor() {
+    this.filePath = path.resolve(config.localSchedulerFile);
+    this.load();
+    this.start();
+  }
+
+  private load() {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const stored: LocalSchedule[] = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8")
+      );
+      for (const schedule of stored) {
+        this.schedules.set(schedule.scheduleId, schedule);
+      }
+      logger.info("Loaded local schedules", {
+        count: this.schedules.size,
+        file: this.filePath,
+      });
+    } catch (error) {
+      logger.error("Failed to load local schedules", { error });
+    }
+  }
+
+  private async persist() {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(
+      this.filePath,
+      JSON.stringify([...this.schedules.values()], null, 2)
+    );
+  }
+
+  /**
+   * Start ticking at each minute boundary. The timer is unref'd so it never keeps
+   * a script alive on its own.
+   */
+  start() {
+    if (this.timer) return;
+    const scheduleNextTick = () => {
+      const msToNextMinute = 60_000 - (Date.now() % 60_000);
+      this.timer = setTimeout(() => {
+        this.tick(new Date());
+        scheduleNextTick();
+      }, msToNextMinute);
+      this.timer.unref();
+    };
+    scheduleNextTick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick(now: Date) {
+    const minute = Math.floor(now.getTime() / 60_000);
+    // Guard against a late timer firing twice within the same minute
+    if (this.lastTickMinute === minute) return;
+    this.lastTickMinute = minute;
+
+    for (const schedule of this.schedules.values()) {
+      if (schedule.paused) continue;
+      try {
+        if (matchesCron(schedule.cron, now, schedule.timezone)) {
+          this.fire(schedule.ruleId, "schedule");
+        }
+      } catch (error) {
+        logger.error("Invalid local schedule", {
+          scheduleId: schedule.scheduleId,
+          error,
+        });
+      }
+    }
+
+    for (const job of this.jobs.values()) {
+      if (!matchesCron(job.cron, now)) continue;
+      job.run().catch((error) => {
+        logger.error("Local job failed", { job: job.name, error });
+      });
+    }
+  }
+
+  private fire(ruleId: string, trigger: RunTrigger) {
+    logger.info("Local scheduler executing rule", { ruleId, trigger });
+    // Imported lazily: ruleService depends on the scheduler, not the other way round
+    import("./ruleService.js")
+      .then(({ ruleService }) =>
+        ruleService.handleExecute({ body: { ruleId, trigger } })
+      )
+      .then((result) => {
+        if (result.status >= 400) {
+          logger.error("Local execution failed", {
+            ruleId,
+            status: result.status,
+            body: result.body,
+          });
+        }
+      })
+      .catch((error) => {
+        logger.error("Local execution failed", { ruleId, error });
+      });
+  }
+
+  async scheduleExecution(
+    ruleId: string,
+    cronExpression: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    options: { paused?: boolean } = {}
+  ): Promise<{ scheduleId: string }> {
+    const cronError = validateCron(cronExpression);
+    if (cronError) {
+      throw new Error(`Unsupported cron: ${cronError}`);
+    }
+
+    const schedule: LocalSchedule = {
+      scheduleId: `local_${crypto.randomUUID()}`,
+      ruleId,
+      cron: cronExpression.trim(),
+      timezone,
+      paused: options.paused ?? false,
+      createdAt: new Date().toISOString(),
+    };
+    this.schedules.set(schedule.scheduleId, schedule);
+    await this.persist();
+
+    logger.info("Scheduled local execution", {
+      ruleId,
+      scheduleId: schedule.scheduleId,
+      cron: schedule.cron,
+      timezone,
+      paused: schedule.paused,
+    });
+    return { scheduleId: schedule.scheduleId };
+  }
+
+  async scheduleJob(job: SchedulerJob): Promise<{ scheduleId: string }> {
+    const cronError = validateCron(job.cron);
+    if (cronError) {
+      throw new Error(`Unsupported cron: ${cronError}`);
+    }
+    this.jobs.set(job.name, job);
+    logger.info("Scheduled local job", { job: job.name, cron: job.cron });
+    return { scheduleId: `local_job_${job.name}` };
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleDetails | null> {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return null;
+    // Same shape QStash returns, so cronToFrequency works for both backends
+    return {
+      cron: withCronTimeZone(schedule.cron, schedule.timezone),
+      isPaused: schedule.paused,
+    };
+  }
+
+  async deleteSchedule(
+    scheduleId: string
+  ): Promise<{ success: boolean; error: any }> {
+    return this.update(scheduleId, () => {
+      this.schedules.delete(scheduleId);
+    });
+  }
+
+  async pauseSchedule(
+    scheduleId: string
+  ): Promise<{ success: boolean; error: any }> {
+    return this.update(scheduleId, (schedule) => {
+      schedule.paused = true;
+    });
+  }
+
+  async resumeSchedule(
+    scheduleId: string
+  ): Promise<{ success: boolean; error: any }> {
+    return this.update(scheduleId, (schedule) => {
+      schedule.paused = false;
+    });
+  }
+
+  private async update(
+    scheduleId: string,
+    mutate: (schedule: LocalSchedule) => void
+  ): Promise<{ success: boolean; error: any }> {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      return {
+        success: false,
+        error: new Error(`Schedule not found: ${scheduleId}`),
+      };
+    }
+    try {
+      mutate(schedule);
+      await this.persist();
+      return { success: true, error: null };
+    } catch (error) {
+      logger.error("Error updating local schedule", { error });
+      return { success: false, error };
+    }
+  }
+
+  async triggerImmediateExecution(ruleId: string) {
+    setImmediate(() => this.fire(ruleId, "immediate"));
+    return { ruleId };
+  }
+
+  /**
+   * Local executions never travel over HTTP, so no external request can carry a
+   * valid signature for this backend.
+   */
+  async verifySignature(_rawBody: Buffer, _signature?: string) {
+    return false;
+  }
+
+  cronToFrequency(cron: string): string {
+    return describeZonedCron(cron);
+  }
+
+  // Runs in this process, so it is available whenever the server is
+  async checkConnection() {
+    return { success: true, error: null };
+  }
+}
@@ -0,0 +1,107 @@
+import type { AttemptKey, LoginAttemptOutcome } from "../db/loginAttempt.js";
+import { db } from "../db/repositories.js";
+import { logger } from "../logger.js";
+
+// Failed attempts allowed before a lockout starts. Several users can share an IP
+// (offices, carrier NAT), so IPs get more leeway than a single code.
+const FREE_FAILURES = { ip: 10, code: 5 };
+// The first lockout lasts a minute and doubles with every further failure
+const BASE_LOCKOUT_MS = 60_000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+// Failures older than this are forgotten. A code's failures are also forgotten once
+// it is entered correctly; an IP's are not, or anyone holding a valid code could
+// reset their IP's count by logging in between guesses.
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface LoginAttemptContext {
+  ip: string;
+  userAgent?: string;
+}
+
+/**
+ * Throttles login code guessing per client IP and per attempted code with an
+ * exponential lockout, and keeps an audit trail of every attempt. State lives in
+ * berry_login_attempts, so limits hold across instances. Concurrent attempts that
+ * pass the check together are all let through; the lockout catches up on the next.
+ */
+class LoginGuard {
+  private async lockedUntil(
+    key: AttemptKey,
+    freeFailures: number
+  ): Promise<{ data: number; error: any }> {
+    let since = Date.now() - FAILURE_WINDOW_MS;
+    if ("code_hash" in key) {
+      const { data: lastSuccessAt, error: successError } =
+        await db.loginAttempts.getLastSuccessfulAttemptAt(key);
+      if (successError) return { data: 0, error: successError };
+      if (lastSuccessAt) {
+        since = Math.max(since, new Date(lastSuccessAt).getTime());
+      }
+    }
+
+    const { data: failures, error } =
+      await db.loginAttempts.getFailedAttemptsSince(
+        key,
+        new Date(since).toISOString()
+      );
+    if (error || !failures) return { data: 0, error };
+    if (failures.count < freeFailures || !failures.lastFailedAt) {
+      return { data: 0, error: null };
+    }
+
+    const lockout = Math.min(
+      MAX_LOCKOUT_MS,
+      BASE_LOCKOUT_MS * 2 ** (failures.count - freeFailures)
+    );
+    return {
+      data: new Date(failures.lastFailedAt).getTime() + lockout,
+      error: null,
+    };
+  }
+
+  /**
+   * Seconds until the IP or the code may be tried again, or 0 if neither is locked
+   * out. Errors are returned rather than treated as unlocked.
+   */
+  async retryAfterSeconds(
+    context: LoginAttemptContext,
+    codeHash: string
+  ): Promise<{ data: number; error: any }> {
+    const [byIp, byCode] = await Promise.all([
+      this.lockedUntil({ ip: context.ip }, FREE_FAILURES.ip),
+      this.lockedUntil({ code_hash: codeHash }, FREE_FAILURES.code),
+    ]);
+    const error = byIp.error || byCode.error;
+    if (error) return { data: 0, error };
+
+    const remaining = Math.max(byIp.data, byCode.data) - Date.now();
+    return {
+      data: remaining > 0 ? Math.ceil(remaining / 1000) : 0,
+      error: null,
+    };
+  }
+
+  /**
+   * Record an attempt in the audit trail. Invalid codes count towards lockouts;
+   * attempts rejected while locked out do not extend them.
+   */
+  async record(
+    context: LoginAttemptContext,
+    codeHash: string,
+    outcome: LoginAttemptOutcome,
+    userId?: string
+  ) {
+    if (outcome !== "succeeded") {
+      logger.warn("Failed login attempt", { ip: context.ip, outcome });
+    }
+    await db.loginAttempts.recordLoginAttempt({
+      ip: context.ip,
+      code_hash: codeHash,
+      user_id: userId ?? null,
+      outcome,
+      user_agent: context.userAgent ?? null,
+    });
+  }
+}
+
+export const loginGuard = new LoginGuard();
@@ -1,32 +1,14 @@
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import dotenv from "dotenv";
+import type {
+  NotificationPage,
+  NotificationQuery,
+  NotificationRecord,
+} from "../db/notification.js";
+import { db } from "../db/repositories.js";
+import { notificationsCreated } from "../metrics.js";
 
-dotenv.config();
-
-export interface NotificationRecord {
-  id?: number;
-  created_at?: string;
-  user_id: string;
-  rule_id: string;
-  payload: any;
-}
+export type { NotificationPage, NotificationQuery, NotificationRecord };
 
 class NotificationService {
-  private supabase: SupabaseClient;
-
-  constructor() {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      throw new Error(
-        "Missing required env: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
-      );
-    }
-
-    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-  }
-
   /**
    * Insert a new notification. created_at/id are database-generated.
    */
@@ -35,49 +17,107 @@ class NotificationService {
     rule_id: string,
     payload: Record<string, any>
   ): Promise<{ data: NotificationRecord | null; error: any }> {
-    try {
-      const { data, error } = await this.supabase
-        .from("berry_notifications")
-        .insert([{ user_id, rule_id, payload }])
-        .select()
-        .single();
-
-      if (error) {
-        console.error("Error creating notification:", error);
-        return { data: null, error };
-      }
-      return { data, error: null };
-    } catch (error) {
-      console.error("Unexpected error creating notification:", error);
-      return { data: null, error };
-    }
+    const result = await db.notifications.createNotification(
+      user_id,
+      rule_id,
+      payload
+    );
+    if (result.data) notificationsCreated.inc();
+    return result;
   }
 
   /**
-   * Fetch notifications for a specific user, newest first.
+   * Fetch a page of notifications for a specific user, newest first. Archived
+   * notifications are excluded unless query.archived is set.
    */
-  async getNotificationsByUserId(userId: string): Promise<{
-    data: NotificationRecord[] | null;
+  async getNotificationsByUserId(
+    userId: string,
+    query: NotificationQuery
+  ): Promise<{
+    data: NotificationPage | null;
     error: any;
   }> {
-    try {
-      const { data, error } = await this.supabase
-        .from("berry_notifications")
-        .select("*")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: false });
+    return db.notifications.getNotificationsByUserId(userId, query);
+  }
 
-      console.log(`Fetched ${data?.length} notifications for user ${userId}`);
+  /**
+   * Fetch one of the user's notifications by id. data is null if it does not exist.
+   */
+  async getNotificationById(
+    userId: string,
+    id: number
+  ): Promise<{ data: NotificationRecord | null; error: any }> {
+    return db.notifications.getNotificationById(userId, id);
+  }
+
+  /**
+   * Fetch the user's notifications created after afterId, oldest first. Used to
+   * replay what a reconnecting stream client missed (Last-Event-ID).
+   */
+  async getNotificationsSince(
+    userId: string,
+    afterId: number,
+    limit: number
+  ): Promise<{ data: NotificationRecord[] | null; error: any }> {
+    return db.notifications.getNotificationsSince(userId, afterId, limit);
+  }
+
+  /**
+   * Id of the user's newest notification (archived or not), or null if they have none.
+   */
+  async getLatestNotificationId(
+    userId: string
+  ): Promise<{ data: number | null; error: any }> {
+    return db.notifications.getLatestNotificationId(userId);
+  }
 
-      if (error) {
-        console.error("Error fetching notifications:", error);
-        return { data: null, error };
-      }
-      return { data, error: null };
-    } catch (error) {
-      console.error("Unexpected error fetching notifications:", error);
-      return { data: null, error };
-    }
+  /**
+   * Count unread, unarchived notifications without fetching them (for the app badge).
+   */
+  async getUnreadCount(
+    userId: string
+  ): Promise<{ data: number | null; error: any }> {
+    return db.notifications.getUnreadCount(userId);
+  }
+
+  /**
+   * Mark one of the user's notifications as read. data is null if it does not exist.
+   */
+  async markAsRead(
+    userId: string,
+    id: number
+  ): Promise<{ data: NotificationRecord | null; error: any }> {
+    return db.notifications.stampNotification(userId, id, "read_at");
+  }
+
+  /**
+   * Archive one of the user's notifications. data is null if it does not exist.
+   */
+  async archive(
+    userId: string,
+    id: number
+  ): Promise<{ data: NotificationRecord | null; error: any }> {
+    return db.notifications.stampNotification(userId, id, "archived_at");
+  }
+
+  /**
+   * Mark all of the user's unread notifications as read, optionally for one rule.
+   */
+  async markAllAsRead(
+    userId: string,
+    ruleId?: string
+  ): Promise<{ data: number | null; error: any }> {
+    return db.notifications.markAllAsRead(userId, ruleId);
+  }
+
+  /**
+   * Delete one of the user's notifications.
+   */
+  async deleteNotification(
+    userId: string,
+    id: number
+  ): Promise<{ success: boolean; error: any }> {
+    return db.notifications.deleteNotification(userId, id);
   }
 }
 
@@ -0,0 +1,34 @@
+import { EventEmitter } from "node:events";
+import type { NotificationRecord } from "./notificationService.js";
+
+type NotificationListener = (notification: NotificationRecord) => void;
+
+/**
+ * In-process fan-out of newly created notifications to open SSE connections,
+ * keyed by user id. Notifications created by another instance are not seen here;
+ * the stream route catches up on those from the database.
+ */
+class NotificationStream {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open connection; there is no meaningful leak threshold
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(notification: NotificationRecord) {
+    this.emitter.emit(notification.user_id, notification);
+  }
+
+  /**
+   * Listen for a user's new notifications. Returns a function that unsubscribes.
+   */
+  subscribe(userId: string, listener: NotificationListener): () => void {
+    this.emitter.on(userId, listener);
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
+
+export const notificationStream = new NotificationStream();
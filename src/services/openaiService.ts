@@ -1,28 +1,62 @@
 import { OpenAI } from "openai";
-import * as dotenv from "dotenv";
-dotenv.config();
+import { config } from "../config.js";
+import { withFixture } from "../fixtures.js";
+import { logger } from "../logger.js";
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage,
+} from "./llmService.js";
 
-if (!process.env.OPENAI_API_KEY) {
+if (!config.openaiApiKey) {
   throw new Error("OPENAI_API_KEY is not set");
 }
 
 const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+  apiKey: config.openaiApiKey,
 });
 
-export async function generate(prompt: string, schema?: any): Promise<any> {
+const DEFAULT_MODEL = "gpt-5";
+const DEEP_RESEARCH_MODEL = "o3-deep-research-2025-06-26";
+
+export function toUsage(usage: any): LLMUsage | null {
+  if (!usage) return null;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    totalTokens:
+      usage.total_tokens ??
+      (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
+  };
+}
+
+/**
+ * Run a request through the Responses API. Web search is enabled unless the
+ * request passes an explicit (possibly empty) tools list.
+ */
+export async function complete(request: LLMRequest): Promise<LLMResponse> {
   try {
-    const hasSchema = Boolean(schema);
-    const jsonSchema = hasSchema ? schema : undefined;
+    const model = request.model || DEFAULT_MODEL;
+    const jsonSchema = request.schema;
+    // Deep-research models only accept the preview search tool
+    const deepResearch = model.includes("deep-research");
+    const tools = (request.tools ?? ["web_search"])
+      .filter((tool) => tool === "web_search")
+      .map(() =>
+        deepResearch
+          ? { type: "web_search_preview", search_context_size: "medium" }
+          : { type: "web_search" }
+      );
 
-    const request: any = {
-      model: "gpt-5",
-      input: prompt,
-      tools: [{ type: "web_search" }],
+    const body: any = {
+      model,
+      input: request.prompt,
+      tools,
     };
 
     if (jsonSchema) {
-      request.text = {
+      body.text = {
         format: {
           type: "json_schema",
           name: "response_schema",
@@ -32,33 +66,61 @@ export async function generate(prompt: string, schema?: any): Promise<any> {
       };
     }
 
-    const response = await openai.responses.create(request);
+    logger.debug("OpenAI request", { model, input: body.input });
+    const startedAt = Date.now();
+    const response = await withFixture("openai", body, () =>
+      openai.responses.create(body)
+    );
 
     const text =
       (response as any).output_text ?? (response as any).output?.[0]?.text;
+    logger.info("OpenAI response", {
+      model,
+      durationMs: Date.now() - startedAt,
+      usage: (response as any).usage,
+      output: text,
+    });
 
-    if (!hasSchema) {
-      return text || "No response generated";
-    }
-    return JSON.parse(text);
+    return {
+      provider: "openai",
+      model,
+      text: text || "",
+      output: jsonSchema ? JSON.parse(text) : text || "No response generated",
+      usage: toUsage((response as any).usage),
+    };
   } catch (error) {
-    console.error("OpenAI API error:", error);
+    logger.error("OpenAI API error", { error });
     throw new Error(`OpenAI API failed: ${error}`);
   }
 }
 
+export async function generate(prompt: string, schema?: any): Promise<any> {
+  const response = await complete({ prompt, schema });
+  return response.output;
+}
+
 export async function deepgenerate(prompt: string): Promise<string> {
-  try {
-    const response = await openai.responses.create({
-      model: "o3-deep-research-2025-06-26", // deep-research reasoning model
-      input: prompt,
-      tools: [{ type: "web_search_preview", search_context_size: "medium" }],
-    } as any);
-    const text =
-      (response as any).output_text ?? (response as any).output?.[0]?.text;
-    return text || "No response generated";
-  } catch (error) {
-    console.error("OpenAI API error:", error);
-    throw new Error(`OpenAI API failed: ${error}`);
-  }
+  const response = await complete({ prompt, model: DEEP_RESEARCH_MODEL });
+  return response.output;
 }
+
+export const openaiProvider: LLMProvider = {
+  name: "openai",
+  defaultModel: DEFAULT_MODEL,
+  supportsStructuredOutput: true,
+  pricing: {
+    "gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+    "gpt-5-mini": { inputPerMillion: 0.25, outputPerMillion: 2 },
+    "gpt-5-nano": { inputPerMillion: 0.05, outputPerMillion: 0.4 },
+    "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+    "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+    "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    o3: { inputPerMillion: 2, outputPerMillion: 8 },
+    "o4-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    "o3-deep-research": { inputPerMillion: 10, outputPerMillion: 40 },
+    "o4-mini-deep-research": { inputPerMillion: 2, outputPerMillion: 8 },
+  },
+  complete,
+};
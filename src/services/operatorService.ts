@@ -1,28 +1,51 @@
+import fs from "node:fs";
 import { OpenAI } from "openai";
-import dotenv from "dotenv";
 import { chromium, Browser, Page } from "playwright";
-
-dotenv.config();
+import { config } from "../config.js";
+import { fixtureSequence } from "../fixtures.js";
+import { type LogFields, logger } from "../logger.js";
+import { computerUseSteps, computerUseStepsPerRun } from "../metrics.js";
+import type { LLMProvider, LLMRequest, LLMUsage } from "./llmService.js";
 
 const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+  apiKey: config.openaiApiKey,
 });
 
-// Simple logger for consistent output
-function log(...args: any[]): void {
-  console.log("[LLMService]", ...args);
+const COMPUTER_USE_MODEL = "computer-use-preview";
+
+// Model turns an agent run may take before it is abandoned
+const MAX_STEPS = 40;
+
+// Action types handleModelAction knows; anything else is counted as "other"
+const KNOWN_ACTIONS = new Set([
+  "click",
+  "double_click",
+  "scroll",
+  "type",
+  "keypress",
+  "wait",
+  "open_url",
+  "goto",
+  "navigate",
+  "screenshot",
+]);
+
+// Step-by-step trace of the agent, only shown at LOG_LEVEL=debug
+function log(message: string, fields?: LogFields): void {
+  logger.debug(message, { component: "computer-use", ...fields });
 }
 
 /**
  * Launch a sandboxed Chromium browser instance using Playwright.
  * The browser runs with minimal permissions to reduce security risks.
+ * Headless unless a local script wants to watch it.
  */
-async function launchSandboxedBrowser(): Promise<{
+async function launchSandboxedBrowser(headless: boolean): Promise<{
   browser: Browser;
   page: Page;
 }> {
   const browser = await chromium.launch({
-    headless: false,
+    headless,
     chromiumSandbox: true,
     env: {},
     args: ["--disable-extensions", "--disable-file-system"],
@@ -39,7 +62,7 @@ async function launchSandboxedBrowser(): Promise<{
  * Extend this handler as the API adds support for more action types.
  */
 async function handleModelAction(page: Page, action: any): Promise<void> {
-  log("handleModelAction invoked", action.type, action);
+  log("handleModelAction invoked", { action });
   switch (action.type) {
     case "click": {
       const { x, y, button = "left" } = action;
@@ -89,15 +112,13 @@ async function handleModelAction(page: Page, action: any): Promise<void> {
       const { url, wait_until = "load" } = action;
       log("navigate", { url, wait_until });
       if (!url || typeof url !== "string") {
-        console.warn(
-          `Missing or invalid URL in navigate action: ${JSON.stringify(action)}`
-        );
+        logger.warn("Missing or invalid URL in navigate action", { action });
         break;
       }
       try {
         await page.goto(url, { waitUntil: wait_until });
       } catch (err) {
-        console.error(`Failed to navigate to ${url}:`, err);
+        logger.error("Failed to navigate", { url, error: err });
       }
       break;
     }
@@ -106,7 +127,7 @@ async function handleModelAction(page: Page, action: any): Promise<void> {
       break;
     }
     default: {
-      console.warn(`Unrecognized action type: ${action.type}`);
+      logger.warn("Unrecognized action type", { type: action.type });
     }
   }
 }
@@ -121,100 +142,188 @@ async function captureScreenshot(page: Page): Promise<string> {
 }
 
 /**
- * Run the computer-use loop for the given prompt.
+ * Whether Playwright's Chromium is installed, without paying for a launch. Returns
+ * an error describing what is missing, or null when the browser is available.
+ */
+export function checkBrowserInstalled(): string | null {
+  try {
+    const executable = chromium.executablePath();
+    return fs.existsSync(executable)
+      ? null
+      : `Chromium not found at ${executable}; run npx playwright install chromium`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Run the computer-use loop for the given prompt in a visible browser, for
+ * trying the agent out locally.
  *
  * @param prompt A natural-language instruction describing the task to automate.
  * @returns Whatever free-text output the model produces after it finishes acting.
  */
 export async function runComputerUseAgent(prompt: string): Promise<string> {
-  log("runComputerUseAgent started", prompt);
-  const { browser, page } = await launchSandboxedBrowser();
+  const { text } = await runComputerUseLoop(prompt, { headless: false });
+  return text;
+}
+
+/**
+ * Run the computer-use loop and also report token usage summed across every step.
+ * Throws once the agent takes more than MAX_STEPS turns or is still acting at the
+ * deadline (epoch ms).
+ */
+async function runComputerUseLoop(
+  prompt: string,
+  {
+    model = COMPUTER_USE_MODEL,
+    headless = true,
+    deadline,
+  }: { model?: string; headless?: boolean; deadline?: number } = {}
+): Promise<{ text: string; usage: LLMUsage }> {
+  log("runComputerUseAgent started", { prompt });
+  // Replayed runs need no browser: the recorded responses already reflect what it showed
+  const fixture = fixtureSequence("computer-use", { model, prompt });
+  const { browser, page } = fixture.replaying
+    ? { browser: null, page: null }
+    : await launchSandboxedBrowser(headless);
   let step = 0;
+  const usage: LLMUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  const addUsage = (response: any) => {
+    usage.inputTokens += response.usage?.input_tokens ?? 0;
+    usage.outputTokens += response.usage?.output_tokens ?? 0;
+    usage.totalTokens += response.usage?.total_tokens ?? 0;
+  };
 
   try {
     // FIRST REQUEST ---------------------------------------------------------
-    let response: any = await openai.responses.create({
-      model: "computer-use-preview",
-      tools: [
-        {
-          type: "computer_use_preview",
-          display_width: 1024,
-          display_height: 768,
-          environment: "browser",
-        } as any,
-      ],
-      input: [
-        {
-          role: "user",
-          content: [{ type: "input_text", text: prompt }],
-        },
-      ],
-      reasoning: { summary: "concise" },
-      truncation: "auto",
-    });
+    let response: any = await fixture.next(() =>
+      openai.responses.create({
+        model,
+        tools: [
+          {
+            type: "computer_use_preview",
+            display_width: 1024,
+            display_height: 768,
+            environment: "browser",
+          } as any,
+        ],
+        input: [
+          {
+            role: "user",
+            content: [{ type: "input_text", text: prompt }],
+          },
+        ],
+        reasoning: { summary: "concise" },
+        truncation: "auto",
+      })
+    );
 
     // MAIN LOOP -------------------------------------------------------------
     while (true) {
       step += 1;
-      console.log("response", response);
+      addUsage(response);
+      log("Model response", { step, output: response.output });
       const computerCall = response.output?.find(
         (item: any) => item.type === "computer_call"
       );
 
       // When the model stops issuing computer calls, we consider the task done.
       if (!computerCall) {
-        log("No more computer calls, agent finished after", step, "steps");
+        log("No more computer calls, agent finished", { steps: step });
+        computerUseStepsPerRun.observe(step);
         // Combine any text outputs into a single string and return.
         const textParts = response.output
           ?.filter(
             (item: any) => item.type === "text" || item.type === "reasoning"
           )
           .map((item: any) => item.text ?? item.summary?.[0]?.text ?? "");
-        return textParts?.join("\n") ?? "";
+        await fixture.save();
+        return { text: textParts?.join("\n") ?? "", usage };
+      }
+
+      if (step >= MAX_STEPS) {
+        throw new Error(
+          `Computer-use agent did not finish within ${MAX_STEPS} steps`
+        );
+      }
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw new Error(
+          `Computer-use agent ran out of time after ${step} steps`
+        );
       }
 
       const { action, call_id } = computerCall;
-      log(`Step ${step}: executing action`, action.type, "call_id", call_id);
+      log("Executing action", { step, type: action.type, callId: call_id });
+      computerUseSteps.inc({
+        action: KNOWN_ACTIONS.has(action.type) ? action.type : "other",
+      });
 
-      // Execute the action in the local browser.
-      await handleModelAction(page, action);
-      // Give the UI a moment to update.
-      await page.waitForTimeout(750);
+      let screenshotBase64 = "";
+      if (page) {
+        // Execute the action in the local browser.
+        await handleModelAction(page, action);
+        // Give the UI a moment to update.
+        await page.waitForTimeout(750);
 
-      // Take a screenshot reflecting the new state.
-      const screenshotBase64 = await captureScreenshot(page);
-      log("Screenshot captured, sending back to model");
+        // Take a screenshot reflecting the new state.
+        screenshotBase64 = await captureScreenshot(page);
+        log("Screenshot captured, sending back to model");
+      }
 
       // Before sending the screenshot back, collect any pending safety checks to acknowledge
       const acknowledgedSafety = computerCall.pending_safety_checks ?? [];
 
       // Send the screenshot back to the model.
-      response = await openai.responses.create({
-        model: "computer-use-preview",
-        previous_response_id: response.id,
-        tools: [
-          {
-            type: "computer_use_preview",
-            display_width: 1024,
-            display_height: 768,
-            environment: "browser",
-          } as any,
-        ],
-        input: [
-          {
-            call_id,
-            type: "computer_call_output",
-            acknowledged_safety_checks: acknowledgedSafety,
-            output: {
-              type: "input_image",
-              image_url: `data:image/png;base64,${screenshotBase64}`,
-            },
-          } as any,
-        ],
-        truncation: "auto",
-      } as any);
+      response = await fixture.next(() =>
+        openai.responses.create({
+          model,
+          previous_response_id: response.id,
+          tools: [
+            {
+              type: "computer_use_preview",
+              display_width: 1024,
+              display_height: 768,
+              environment: "browser",
+            } as any,
+          ],
+          input: [
+            {
+              call_id,
+              type: "computer_call_output",
+              acknowledged_safety_checks: acknowledgedSafety,
+              output: {
+                type: "input_image",
+                image_url: `data:image/png;base64,${screenshotBase64}`,
+              },
+            } as any,
+          ],
+          truncation: "auto",
+        } as any)
+      );
     }
   } finally {
-    await browser.close();
+    await browser?.close();
   }
 }
+
+/**
+ * The browser agent exposed through the common provider contract. It drives a real
+ * browser and only returns free text, so it cannot honor a JSON schema.
+ */
+export const computerUseProvider: LLMProvider = {
+  name: "computer-use",
+  defaultModel: COMPUTER_USE_MODEL,
+  supportsStructuredOutput: false,
+  pricing: {
+    "computer-use-preview": { inputPerMillion: 3, outputPerMillion: 12 },
+  },
+  async complete(request: LLMRequest) {
+    const model = request.model || COMPUTER_USE_MODEL;
+    const { text, usage } = await runComputerUseLoop(request.prompt, {
+      model,
+      deadline: request.deadline,
+    });
+    return { provider: "computer-use", model, text, output: text, usage };
+  },
+};
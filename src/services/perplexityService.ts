@@ -1,5 +1,9 @@
-import * as dotenv from "dotenv";
-dotenv.config();
+import { config } from "../config.js";
+import { withFixture } from "../fixtures.js";
+import { logger } from "../logger.js";
+import type { LLMProvider, LLMRequest, LLMResponse } from "./llmService.js";
+
+const DEFAULT_MODEL = "sonar-deep-research";
 
 interface PerplexityResponse {
   id: string;
@@ -14,37 +18,112 @@ interface PerplexityResponse {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
-export async function generate(prompt: string): Promise<string> {
+/**
+ * Run a request through the chat completions API. Sonar models always search the
+ * web, so the tools list is ignored. Structured output uses response_format.
+ */
+export async function complete(request: LLMRequest): Promise<LLMResponse> {
   try {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "sonar-deep-research",
-        messages: [
+    const model = request.model || DEFAULT_MODEL;
+    const body: any = {
+      model,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt,
+        },
+      ],
+    };
+
+    if (request.schema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { schema: request.schema },
+      };
+    }
+
+    logger.debug("Perplexity request", { model, prompt: request.prompt });
+    const startedAt = Date.now();
+    const data = await withFixture<PerplexityResponse>(
+      "perplexity",
+      body,
+      async () => {
+        const response = await fetch(
+          "https://api.perplexity.ai/chat/completions",
           {
-            role: "user",
-            content: prompt,
-          },
-        ],
-      }),
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${config.perplexityApiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(body),
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error(
+            `Perplexity API error: ${response.status} ${response.statusText}`
+          );
+        }
+
+        return response.json();
+      }
+    );
+    const text = data.choices[0]?.message?.content || "";
+    logger.info("Perplexity response", {
+      model,
+      durationMs: Date.now() - startedAt,
+      usage: data.usage,
+      output: text,
     });
 
-    if (!response.ok) {
-      throw new Error(
-        `Perplexity API error: ${response.status} ${response.statusText}`
-      );
+    let output: any = text || "No response generated";
+    if (request.schema) {
+      // Reasoning models prefix the JSON with a <think> block
+      output = JSON.parse(text.replace(/<think>[\s\S]*?<\/think>/, "").trim());
     }
 
-    const data: PerplexityResponse = await response.json();
-    return data.choices[0]?.message?.content || "No response generated";
+    return {
+      provider: "perplexity",
+      model,
+      text,
+      output,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : null,
+    };
   } catch (error) {
-    console.error("Perplexity API error:", error);
+    logger.error("Perplexity API error", { error });
     throw new Error(`Perplexity API failed: ${error}`);
   }
 }
+
+export async function generate(prompt: string): Promise<string> {
+  const response = await complete({ prompt });
+  return response.output;
+}
+
+export const perplexityProvider: LLMProvider = {
+  name: "perplexity",
+  defaultModel: DEFAULT_MODEL,
+  supportsStructuredOutput: true,
+  pricing: {
+    sonar: { inputPerMillion: 1, outputPerMillion: 1 },
+    "sonar-pro": { inputPerMillion: 3, outputPerMillion: 15 },
+    "sonar-reasoning": { inputPerMillion: 1, outputPerMillion: 5 },
+    "sonar-reasoning-pro": { inputPerMillion: 2, outputPerMillion: 8 },
+    "sonar-deep-research": { inputPerMillion: 2, outputPerMillion: 8 },
+  },
+  complete,
+};
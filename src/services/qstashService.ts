@@ -1,17 +1,30 @@
 import { Client, Receiver } from "@upstash/qstash";
-import dotenv from "dotenv";
+import { config } from "../config.js";
+import {
+  DEFAULT_TIMEZONE,
+  describeZonedCron,
+  validateCron,
+  withCronTimeZone,
+} from "../cron.js";
+import { logger } from "../logger.js";
+import { qstashOperationDuration, qstashOperations } from "../metrics.js";
+import type {
+  ScheduleDetails,
+  Scheduler,
+  SchedulerJob,
+} from "./schedulerService.js";
 
-dotenv.config();
-
-class QStashService {
+export class QStashService implements Scheduler {
   private client: Client;
   private receiver: Receiver;
 
   constructor() {
-    // Log all environment variable keys
-    const token = process.env.QSTASH_TOKEN;
-    const currentKey = process.env.QSTASH_CURRENT_SIGNING_KEY;
-    const nextKey = process.env.QSTASH_NEXT_SIGNING_KEY;
+    const {
+      url,
+      token,
+      currentSigningKey: currentKey,
+      nextSigningKey: nextKey,
+    } = config.qstash;
 
     if (!token || !currentKey || !nextKey) {
       throw new Error(
@@ -19,28 +32,51 @@ class QStashService {
       );
     }
 
-    this.client = new Client({ token });
+    this.client = new Client({ token, baseUrl: url });
     this.receiver = new Receiver({
       currentSigningKey: currentKey,
       nextSigningKey: nextKey,
     });
   }
 
+  // Time and count one QStash API call; errors are rethrown to the caller
+  private async track<T>(
+    operation: string,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const stopTimer = qstashOperationDuration.startTimer({ operation });
+    try {
+      const result = await call();
+      qstashOperations.inc({ operation, outcome: "ok" });
+      return result;
+    } catch (error) {
+      qstashOperations.inc({ operation, outcome: "error" });
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  }
+
   /**
    * Create a recurring schedule that posts to /rule/execute.
-   * Accepts one of the fixed intervals: "per_minute", "hourly", "daily", "weekly".
+   * Accepts any standard 5-field cron expression, evaluated in the given IANA timezone.
+   * QStash cannot create a schedule paused, so a paused one is paused right after
+   * creation and removed again if that fails; a delivery in between is skipped by
+   * /rule/execute, which ignores paused rules.
    */
   async scheduleExecution(
     ruleId: string,
-    cadence: "per_minute" | "hourly" | "daily" | "weekly"
-  ) {
-    console.log(
-      "Scheduling execution for ruleId",
+    cronExpression: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    options: { paused?: boolean } = {}
+  ): Promise<{ scheduleId: string }> {
+    logger.info("Scheduling execution", {
       ruleId,
-      "with cadence",
-      cadence
-    );
-    const baseUrl = process.env.QSTASH_DESTINATION_BASE_URL;
+      cron: cronExpression,
+      timezone,
+      paused: Boolean(options.paused),
+    });
+    const baseUrl = config.qstash.destinationBaseUrl;
     if (!baseUrl) {
       throw new Error(
         "Missing QSTASH_DESTINATION_BASE_URL for QStash destination"
@@ -48,45 +84,62 @@ class QStashService {
     }
     const destination = `${baseUrl}/rule/execute`;
 
-    // Build cron expression from cadence
-    let cron: string;
-    // String-based fixed intervals
-    const normalized = String(cadence).toLowerCase().replace(/\s+/g, "_");
-    switch (normalized) {
-      case "per_minute":
-      case "minute":
-      case "minutely":
-        cron = "* * * * *"; // every minute
-        break;
-      case "hourly":
-      case "hour":
-        cron = "0 * * * *"; // top of every hour
-        break;
-      case "daily":
-      case "day":
-        cron = "0 0 * * *"; // midnight UTC every day
-        break;
-      case "weekly":
-      case "week":
-        cron = "0 0 * * 0"; // midnight UTC every Sunday
-        break;
-      default:
-        throw new Error(
-          `Unsupported cadence: ${cadence}. Use one of per_minute, hourly, daily, weekly`
-        );
+    const cronError = validateCron(cronExpression);
+    if (cronError) {
+      throw new Error(`Unsupported cron: ${cronError}`);
     }
 
-    const schedule = await this.client.schedules.create({
-      destination,
-      cron,
-      retries: 3,
-      body: JSON.stringify({ ruleId }),
-    });
+    // QStash evaluates schedules in UTC unless the cron carries a CRON_TZ prefix
+    const cron = withCronTimeZone(cronExpression, timezone);
+
+    const schedule = await this.track("create_schedule", () =>
+      this.client.schedules.create({
+        destination,
+        cron,
+        retries: 3,
+        body: JSON.stringify({ ruleId, trigger: "schedule" }),
+      })
+    );
+
+    if (options.paused) {
+      const paused = await this.pauseSchedule(schedule.scheduleId);
+      if (!paused.success) {
+        await this.deleteSchedule(schedule.scheduleId);
+        throw paused.error;
+      }
+    }
 
     return schedule; // contains .id
   }
 
-  async verifySignature(rawBody: Buffer, signature?: string) {
+  /**
+   * Create or replace a job's schedule. Its id is derived from the job's name, so
+   * every instance registering it at startup updates the same schedule.
+   */
+  async scheduleJob(job: SchedulerJob): Promise<{ scheduleId: string }> {
+    const baseUrl = config.qstash.destinationBaseUrl;
+    if (!baseUrl) {
+      throw new Error(
+        "Missing QSTASH_DESTINATION_BASE_URL for QStash destination"
+      );
+    }
+    const cronError = validateCron(job.cron);
+    if (cronError) {
+      throw new Error(`Unsupported cron: ${cronError}`);
+    }
+
+    logger.info("Scheduling job", { job: job.name, cron: job.cron });
+    return this.track("create_schedule", () =>
+      this.client.schedules.create({
+        destination: `${baseUrl}${job.path}`,
+        cron: job.cron,
+        scheduleId: `berry-job-${job.name}`,
+        retries: 0,
+      })
+    );
+  }
+
+  async verifySignature(rawBody: Buffer, signature?: string): Promise<boolean> {
     if (!signature) return false;
     const bodyString = rawBody.toString("utf8");
     await this.receiver.verify({ body: bodyString, signature });
@@ -96,12 +149,14 @@ class QStashService {
   /**
    * Get schedule details by schedule ID
    */
-  async getSchedule(scheduleId: string) {
+  async getSchedule(scheduleId: string): Promise<ScheduleDetails | null> {
     try {
-      const schedule = await this.client.schedules.get(scheduleId);
+      const schedule = await this.track("get_schedule", () =>
+        this.client.schedules.get(scheduleId)
+      );
       return schedule;
     } catch (error) {
-      console.error("Error fetching schedule:", error);
+      logger.error("Error fetching schedule", { error });
       return null;
     }
   }
@@ -113,10 +168,46 @@ class QStashService {
     scheduleId: string
   ): Promise<{ success: boolean; error: any }> {
     try {
-      await this.client.schedules.delete(scheduleId);
+      await this.track("delete_schedule", () =>
+        this.client.schedules.delete(scheduleId)
+      );
+      return { success: true, error: null };
+    } catch (error) {
+      logger.error("Error deleting schedule", { error });
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Pause a schedule by schedule ID. A paused schedule delivers nothing until resumed.
+   */
+  async pauseSchedule(
+    scheduleId: string
+  ): Promise<{ success: boolean; error: any }> {
+    try {
+      await this.track("pause_schedule", () =>
+        this.client.schedules.pause({ schedule: scheduleId })
+      );
+      return { success: true, error: null };
+    } catch (error) {
+      logger.error("Error pausing schedule", { error });
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Resume a previously paused schedule by schedule ID
+   */
+  async resumeSchedule(
+    scheduleId: string
+  ): Promise<{ success: boolean; error: any }> {
+    try {
+      await this.track("resume_schedule", () =>
+        this.client.schedules.resume({ schedule: scheduleId })
+      );
       return { success: true, error: null };
     } catch (error) {
-      console.error("Error deleting schedule:", error);
+      logger.error("Error resuming schedule", { error });
       return { success: false, error };
     }
   }
@@ -125,8 +216,8 @@ class QStashService {
    * Trigger an immediate one-time execution of a rule (non-blocking)
    */
   async triggerImmediateExecution(ruleId: string) {
-    console.log("Triggering immediate execution for ruleId", ruleId);
-    const baseUrl = process.env.QSTASH_DESTINATION_BASE_URL;
+    logger.info("Triggering immediate execution", { ruleId });
+    const baseUrl = config.qstash.destinationBaseUrl;
     if (!baseUrl) {
       throw new Error(
         "Missing QSTASH_DESTINATION_BASE_URL for QStash destination"
@@ -135,33 +226,35 @@ class QStashService {
     const destination = `${baseUrl}/rule/execute`;
 
     // Publish a one-time message (not a schedule)
-    const result = await this.client.publishJSON({
-      url: destination,
-      body: { ruleId },
-      retries: 3,
-    });
+    const result = await this.track("publish", () =>
+      this.client.publishJSON({
+        url: destination,
+        body: { ruleId, trigger: "immediate" },
+        retries: 3,
+      })
+    );
 
     return result;
   }
 
   /**
-   * Convert cron expression to human-readable frequency
+   * Convert a QStash cron (optionally prefixed with CRON_TZ=<zone>) to human-readable frequency
    */
   cronToFrequency(cron: string): string {
-    switch (cron) {
-      case "* * * * *":
-      case "*/1 * * * *":
-        return "Every minute";
-      case "0 * * * *":
-        return "Hourly";
-      case "0 0 * * *":
-        return "Daily";
-      case "0 0 * * 0":
-        return "Weekly";
-      default:
-        return cron; // Return the cron expression if not a known pattern
+    return describeZonedCron(cron);
+  }
+
+  /**
+   * Make the cheapest authenticated call (one DLQ entry), so an expired or revoked
+   * token shows up as a failure rather than only reachability being tested
+   */
+  async checkConnection() {
+    try {
+      await this.client.dlq.listMessages({ count: 1 });
+      return { success: true, error: null };
+    } catch (error) {
+      logger.error("QStash connection check failed", { error });
+      return { success: false, error };
     }
   }
 }
-
-export const qstashService = new QStashService();
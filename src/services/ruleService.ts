@@ -1,44 +1,649 @@
-import dotenv from "dotenv";
 import {
-  createRule,
-  deleteRule,
-  getRuleById,
-  getUserRules,
-  type Rule,
-  updateRuleCronId,
-  updateRuleHistory,
+  CADENCES,
+  type Cadence,
+  cadenceToCron,
+  DEFAULT_TIMEZONE,
+  describeCron,
+  isValidTimeZone,
+  validateCron,
+} from "../cron.js";
+import { db } from "../db/repositories.js";
+import { addLogContext, logger, withLogContext } from "../logger.js";
+import { ruleExecutionDuration, ruleExecutions } from "../metrics.js";
+import type { SeenItem } from "../db/seenItem.js";
+import {
+  buildItemsJsonSchema,
+  fingerprintItem,
+  ITEM_FIELD_TYPES,
+  type ItemSchema,
+  renderItemsMarkdown,
+  type ResultItem,
+  toResultItem,
+  validateItemSchema,
+} from "../items.js";
+import {
+  type AlertCondition,
+  CONDITION_TYPES,
+  contentMatchesConditions,
+  describeCondition,
+  hasChangedCondition,
+  itemMatchesConditions,
+  normalizeConditions,
+  THRESHOLD_OPERATORS,
+  validateConditions,
+} from "../conditions.js";
+import type {
+  CompletionReason,
+  ExecutionMode,
+  Rule,
+  RuleStatus,
+  RuleUpdate,
 } from "../db/rule.js";
+import type { RunPage, RunTrigger } from "../db/run.js";
 import {
+  buildBrowserResultCoercionPrompt,
   buildRuleExecutionPrompt,
   buildRuleGenerationPrompt,
 } from "../prompts.js";
+import { deliveryService } from "./deliveryService.js";
 import { notificationService } from "./notificationService.js";
-import { generate as openaiGenerate } from "./openaiService.js";
-import { qstashService } from "./qstashService.js";
+import { notificationStream } from "./notificationStream.js";
+import {
+  complete,
+  DEFAULT_PROVIDER,
+  getProvider,
+  type LLMResponse,
+  type LLMUsage,
+  modelFamily,
+} from "./llmService.js";
+import { scheduler } from "./schedulerService.js";
+import { usageService } from "./usageService.js";
 
 // Load environment variables
-dotenv.config();
 
 // Re-export Rule type for backwards compatibility
-export type { Rule };
+export type { Rule, RuleStatus };
+
+/**
+ * Schema for the structured rule execution response. Items follow the rule's item
+ * schema when it has one.
+ */
+function buildRuleExecutionSchema(itemSchema: ItemSchema | null) {
+  return {
+    type: "object",
+    properties: {
+      content: {
+        type: "string",
+        description: "The result or output of the task execution",
+      },
+      foundRelevantResults: {
+        type: "boolean",
+        description: "Whether the task yielded important or meaningful results",
+      },
+      items: buildItemsJsonSchema(itemSchema),
+    },
+    required: ["content", "foundRelevantResults", "items"],
+    additionalProperties: false,
+  };
+}
+
+interface RuleExecutionResult {
+  content: string;
+  foundRelevantResults: boolean;
+  // Raw items as returned by the model; see toResultItem
+  items: any[];
+}
+
+type FingerprintedItem = ResultItem & { fingerprint: string };
+
+// What to notify about once seen items are filtered out and conditions applied
+interface EvaluatedResult {
+  notify: boolean;
+  content: string;
+  // Items included in the notification
+  reportedItems: FingerprintedItem[];
+  // Every distinct item the run extracted
+  observedItems: FingerprintedItem[];
+  seenCount: number;
+}
+
+const EXECUTION_MODES: ExecutionMode[] = ["web_search", "browser"];
+
+const RUN_TRIGGERS: RunTrigger[] = ["schedule", "manual", "immediate"];
+
+// How long a run may hold its rule's lock; browser runs can take several minutes
+const RULE_LOCK_TTL_MS = 15 * 60 * 1000;
+// Time a browser run keeps under the lock after the agent stops, to coerce and save
+const BROWSER_LOCK_MARGIN_MS = 2 * 60 * 1000;
+
+/**
+ * Total token usage across every LLM call made during one execution.
+ */
+function sumUsage(responses: LLMResponse[]): LLMUsage | null {
+  const usages = responses
+    .map((response) => response.usage)
+    .filter((usage): usage is LLMUsage => Boolean(usage));
+  if (!usages.length) return null;
+  return usages.reduce((total, usage) => ({
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  }));
+}
+
+// Metrics outcome of an execution that got past the lock, from its response body
+function executionOutcome(body: any): "succeeded" | "skipped" | "duplicate" {
+  if (body?.duplicate) return "duplicate";
+  return body?.skipped ? "skipped" : "succeeded";
+}
+
+// Cron schedule a rule runs on, evaluated in an IANA timezone
+interface RuleSchedule {
+  cron: string;
+  timezone: string;
+}
+
+const DEFAULT_SCHEDULE: RuleSchedule = {
+  cron: cadenceToCron("per_minute"),
+  timezone: DEFAULT_TIMEZONE,
+};
+
+/**
+ * Validate a cron/timezone pair. Returns an error message, or null when valid.
+ */
+function validateSchedule(schedule: RuleSchedule): string | null {
+  const cronError = validateCron(schedule.cron);
+  if (cronError) return `Invalid cron: ${cronError}`;
+  if (!isValidTimeZone(schedule.timezone)) {
+    return `Invalid timezone: ${schedule.timezone}`;
+  }
+  return null;
+}
+
+/**
+ * Resolve and validate the provider/model a rule runs on. Rule execution needs
+ * structured output, so only providers that support it can be selected, and only
+ * models the provider lists (or their dated snapshots) are accepted.
+ */
+function resolveModelSelection(
+  providerName?: string,
+  model?: string
+): { provider: string; model: string } | { error: string } {
+  const provider = getProvider(providerName || DEFAULT_PROVIDER);
+  if (!provider) {
+    return { error: `Unknown provider: ${providerName}` };
+  }
+  if (!provider.supportsStructuredOutput) {
+    return {
+      error: `Provider ${provider.name} cannot run rules: it does not support structured output`,
+    };
+  }
+  if (!model) {
+    return { provider: provider.name, model: provider.defaultModel };
+  }
+  if (
+    typeof model !== "string" ||
+    (provider.pricing && !modelFamily(provider, model))
+  ) {
+    const known = Object.keys(provider.pricing ?? {}).join(", ");
+    return {
+      error: `Unknown model for provider ${provider.name}: ${model}. Use one of ${known}`,
+    };
+  }
+  return { provider: provider.name, model };
+}
+
+// Bounds a caller can set on create/update; null clears expiresAt/maxRuns
+interface RuleBoundsInput {
+  expiresAt?: string | null;
+  maxRuns?: number | null;
+  stopOnFirstHit?: boolean;
+}
+
+/**
+ * Validate the optional bounds in a create/update body and map them to rule
+ * columns. Only keys present in the body are returned.
+ */
+function parseBounds(input: RuleBoundsInput):
+  | {
+      fields: Pick<RuleUpdate, "expires_at" | "max_runs" | "stop_on_first_hit">;
+    }
+  | { error: string } {
+  const fields: Pick<
+    RuleUpdate,
+    "expires_at" | "max_runs" | "stop_on_first_hit"
+  > = {};
+
+  if (input.expiresAt !== undefined) {
+    if (input.expiresAt === null) {
+      fields.expires_at = null;
+    } else {
+      const expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        return { error: "expiresAt must be an ISO 8601 date" };
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        return { error: "expiresAt must be in the future" };
+      }
+      fields.expires_at = expiresAt.toISOString();
+    }
+  }
+
+  if (input.maxRuns !== undefined) {
+    if (
+      input.maxRuns !== null &&
+      (!Number.isInteger(input.maxRuns) || input.maxRuns < 1)
+    ) {
+      return { error: "maxRuns must be a positive integer" };
+    }
+    fields.max_runs = input.maxRuns;
+  }
+
+  if (input.stopOnFirstHit !== undefined) {
+    if (typeof input.stopOnFirstHit !== "boolean") {
+      return { error: "stopOnFirstHit must be a boolean" };
+    }
+    fields.stop_on_first_hit = input.stopOnFirstHit;
+  }
+
+  return { fields };
+}
+
+/**
+ * The bound a rule has reached, if any. Pass hit = true when the latest run
+ * reported results.
+ */
+function reachedBound(rule: Rule, hit = false): CompletionReason | null {
+  if (hit && rule.stop_on_first_hit) return "first_hit";
+  if (rule.max_runs && (rule.run_count ?? 0) >= rule.max_runs) {
+    return "max_runs";
+  }
+  if (rule.expires_at && new Date(rule.expires_at).getTime() <= Date.now()) {
+    return "expired";
+  }
+  return null;
+}
 
 class RuleService {
+  /**
+   * Run the user's idea through buildRuleGenerationPrompt to get a refined prompt,
+   * suggested schedule, execution mode, item schema, alert conditions and whether it
+   * is a one-off goal (stop on first hit). Falls back to the raw text if generation
+   * fails, and drops the schedule if the model produced an invalid cron or timezone.
+   * The generation response is returned too so its usage can be metered.
+   */
+  private async generateRulePrompt(textPrompt: string): Promise<{
+    prompt: string;
+    schedule: RuleSchedule | null;
+    executionMode: ExecutionMode;
+    itemSchema: ItemSchema | null;
+    conditions: AlertCondition[];
+    stopOnFirstHit: boolean;
+    responses: LLMResponse[];
+  }> {
+    let prompt = textPrompt;
+    let schedule: RuleSchedule | null = null;
+    let executionMode: ExecutionMode = "web_search";
+    let itemSchema: ItemSchema | null = null;
+    let conditions: AlertCondition[] = [];
+    let stopOnFirstHit = false;
+    const responses: LLMResponse[] = [];
+    try {
+      const generationInstruction = buildRuleGenerationPrompt(textPrompt);
+      const RuleGenSchema = {
+        type: "object",
+        properties: {
+          aiPrompt: { type: "string" },
+          cron: {
+            type: "string",
+            description: "Standard 5-field cron expression",
+          },
+          timezone: {
+            type: "string",
+            description: "IANA timezone the cron is evaluated in",
+          },
+          executionMode: {
+            type: "string",
+            enum: EXECUTION_MODES,
+            description:
+              "browser when the task needs interactive browsing of a real website",
+          },
+          itemSchema: {
+            type: "object",
+            description:
+              "Shape of each item the task reports; empty fields when results are not a list of items",
+            properties: {
+              name: { type: "string" },
+              fields: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    type: { type: "string", enum: ITEM_FIELD_TYPES },
+                    description: { type: "string" },
+                  },
+                  required: ["name", "type", "description"],
+                  additionalProperties: false,
+                },
+              },
+            },
+            required: ["name", "fields"],
+            additionalProperties: false,
+          },
+          conditions: {
+            type: "array",
+            description:
+              "Conditions results must meet before the user is notified; empty if the user stated none",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", enum: CONDITION_TYPES },
+                field: { type: "string" },
+                operator: {
+                  type: "string",
+                  enum: [...THRESHOLD_OPERATORS, ""],
+                },
+                value: { type: "string" },
+              },
+              required: ["type", "field", "operator", "value"],
+              additionalProperties: false,
+            },
+          },
+          stopOnFirstHit: {
+            type: "boolean",
+            description:
+              "true when the request is a one-off goal that is done once it is met",
+          },
+        },
+        required: [
+          "aiPrompt",
+          "cron",
+          "timezone",
+          "executionMode",
+          "itemSchema",
+          "conditions",
+          "stopOnFirstHit",
+        ],
+        additionalProperties: false,
+      };
+      const response = await complete(DEFAULT_PROVIDER, {
+        prompt: generationInstruction,
+        schema: RuleGenSchema,
+      });
+      responses.push(response);
+      const structured = response.output;
+      if (structured && structured.aiPrompt) {
+        prompt = String(structured.aiPrompt).trim();
+      }
+      if (structured && structured.cron) {
+        const generated = {
+          cron: String(structured.cron).trim(),
+          timezone: String(structured.timezone || DEFAULT_TIMEZONE).trim(),
+        };
+        const scheduleError = validateSchedule(generated);
+        if (scheduleError) {
+          logger.warn("Generated schedule rejected", { error: scheduleError });
+        } else {
+          schedule = generated;
+        }
+      }
+      if (EXECUTION_MODES.includes(structured?.executionMode)) {
+        executionMode = structured.executionMode;
+      }
+      if (structured?.itemSchema?.fields?.length) {
+        const itemSchemaError = validateItemSchema(structured.itemSchema);
+        if (itemSchemaError) {
+          logger.warn("Generated item schema rejected", {
+            error: itemSchemaError,
+          });
+        } else {
+          itemSchema = structured.itemSchema;
+        }
+      }
+      stopOnFirstHit = structured?.stopOnFirstHit === true;
+      if (Array.isArray(structured?.conditions)) {
+        const generated = normalizeConditions(structured.conditions);
+        const conditionsError = validateConditions(generated, itemSchema);
+        if (conditionsError) {
+          logger.warn("Generated conditions rejected", {
+            error: conditionsError,
+          });
+        } else {
+          conditions = generated;
+        }
+      }
+    } catch (err) {
+      logger.warn("Prompt generation failed, falling back to user textPrompt", {
+        error: err,
+      });
+    }
+    return {
+      prompt,
+      schedule,
+      executionMode,
+      itemSchema,
+      conditions,
+      stopOnFirstHit,
+      responses,
+    };
+  }
+
+  /**
+   * Execute a rule's prompt once and return the structured result, along with every
+   * LLM response involved. Browser rules run the computer-use agent first and then
+   * have the rule's provider coerce its free-text output into the structured shape.
+   * Runs under the rule's lock pass its expiry, so the agent stops in time for the
+   * run to be saved while the lock is still held.
+   */
+  private async runRule(
+    rule: Rule,
+    lockExpiresAt?: number
+  ): Promise<{ result: RuleExecutionResult; responses: LLMResponse[] }> {
+    const prompt = buildRuleExecutionPrompt(rule.prompt, rule.history);
+
+    logger.debug("Rule execution prompt", { prompt });
+
+    const responses: LLMResponse[] = [];
+    let result: RuleExecutionResult;
+
+    if (rule.execution_mode === "browser") {
+      const agentResponse = await complete<string>("computer-use", {
+        prompt,
+        tools: ["browser"],
+        deadline:
+          lockExpiresAt === undefined
+            ? undefined
+            : lockExpiresAt - BROWSER_LOCK_MARGIN_MS,
+      });
+      responses.push(agentResponse);
+
+      const coercion = await complete<RuleExecutionResult>(rule.provider, {
+        prompt: buildBrowserResultCoercionPrompt(
+          rule.prompt,
+          agentResponse.output
+        ),
+        model: rule.model,
+        schema: buildRuleExecutionSchema(rule.item_schema ?? null),
+        tools: [],
+      });
+      responses.push(coercion);
+      result = coercion.output;
+    } else {
+      // Execute rule with structured output on the rule's provider/model
+      const response = await complete<RuleExecutionResult>(rule.provider, {
+        prompt,
+        model: rule.model,
+        schema: buildRuleExecutionSchema(rule.item_schema ?? null),
+      });
+      responses.push(response);
+      result = response.output;
+    }
+
+    logger.info("Rule executed", {
+      ruleId: rule.id,
+      executionMode: rule.execution_mode ?? "web_search",
+      responses: responses.map(({ provider, model, usage }) => ({
+        provider,
+        model,
+        usage,
+      })),
+      result,
+    });
+
+    return { result, responses };
+  }
+
+  /**
+   * Decide what a run reports. Items the rule already reported are dropped, unless a
+   * "changed" condition sees them differ from the previous run; the rest must satisfy
+   * every alert condition. When the execution extracted items, whether to notify
+   * depends only on those checks; free-form answers are checked against the
+   * conditions as text, or fall back to the model's relevance judgment when the rule
+   * has none. Typed rules always get their summary rendered from the reported items.
+   * An unsaved rule (preview) has no seen items or previous runs to compare with.
+   */
+  private async evaluateResult(
+    rule: Rule,
+    result: RuleExecutionResult
+  ): Promise<EvaluatedResult> {
+    const itemSchema = rule.item_schema ?? null;
+    const conditions = rule.conditions ?? [];
+    const items = (result.items ?? [])
+      .map((raw) => toResultItem(raw, itemSchema))
+      .filter((item): item is ResultItem => Boolean(item));
+
+    if (!items.length) {
+      let notify = result.foundRelevantResults;
+      if (conditions.length) {
+        const { data: previousRun } =
+          rule.id && hasChangedCondition(conditions)
+            ? await db.runs.getLastSucceededRun(rule.id)
+            : { data: null };
+        notify = contentMatchesConditions(
+          result.content,
+          conditions,
+          previousRun?.content ?? null
+        );
+      }
+      return {
+        notify,
+        content: result.content,
+        reportedItems: [],
+        observedItems: [],
+        seenCount: 0,
+      };
+    }
+
+    // Collapse duplicates within this run as well
+    const unique = new Map<string, FingerprintedItem>();
+    for (const item of items) {
+      const fingerprint = fingerprintItem(item);
+      if (!unique.has(fingerprint)) {
+        unique.set(fingerprint, { ...item, fingerprint });
+      }
+    }
+    const observedItems = [...unique.values()];
+
+    const { data: seen, error } = rule.id
+      ? await db.seenItems.getSeenItems(rule.id, [...unique.keys()])
+      : { data: new Map<string, SeenItem>(), error: null };
+    if (error || !seen) {
+      throw new Error("Failed to load seen items");
+    }
+
+    const trackChanges = hasChangedCondition(conditions);
+    let seenCount = 0;
+    const reportedItems = observedItems.filter((item) => {
+      const previous = seen.get(item.fingerprint);
+      if (previous?.reported_at && !trackChanges) {
+        seenCount += 1;
+        return false;
+      }
+      return itemMatchesConditions(
+        item,
+        conditions,
+        previous ? previous.fields ?? {} : null
+      );
+    });
+
+    // The model's summary may mention other items; only reuse it if all are reported
+    const reuseContent =
+      !itemSchema && reportedItems.length === observedItems.length;
+    return {
+      notify: reportedItems.length > 0,
+      content: reuseContent
+        ? result.content
+        : renderItemsMarkdown(reportedItems, itemSchema),
+      reportedItems,
+      observedItems,
+      seenCount,
+    };
+  }
+
+  /**
+   * Stop a bounded rule for good: tear down its schedule and mark it completed.
+   * The rule, its runs and notifications are kept.
+   */
+  private async completeBoundedRule(rule: Rule, reason: CompletionReason) {
+    logger.info("Rule completed", { ruleId: rule.id, reason });
+    if (rule.cron_id) {
+      const { success, error } = await scheduler.deleteSchedule(rule.cron_id);
+      if (!success) {
+        logger.warn("Failed to delete schedule of completed rule", { error });
+      }
+    }
+    const { error } = await db.rules.completeRule(rule.id!, reason);
+    if (error) {
+      logger.error("Failed to mark rule completed", { error });
+    }
+  }
+
+  /**
+   * Count a successful execution against the rule's bounds and complete the rule if
+   * one of them has now been reached. Failed executions are not counted.
+   */
+  private async recordExecution(rule: Rule, hit: boolean) {
+    const run_count = (rule.run_count ?? 0) + 1;
+    await db.rules.updateRule(rule.id!, { run_count });
+    const reason = reachedBound({ ...rule, run_count }, hit);
+    if (reason) {
+      await this.completeBoundedRule(rule, reason);
+    }
+  }
+
   /**
    * Handle the /rule/execute behavior: verify signature (if present), parse payload,
-   * fetch the rule, and run the OpenAI generation.
+   * fetch the rule, and run it on its provider (or the browser agent).
+   * Only one execution of a rule runs at a time: overlapping scheduled deliveries are
+   * skipped, while immediate and manual ones get a 409 (QStash retries them later).
+   * A delivery whose Upstash message id already produced a run is not run again.
    * Returns an object with HTTP status and JSON body for the caller to send.
    */
   async handleExecute(params: {
     rawBody?: Buffer;
     signature?: string;
+    messageId?: string;
+    body?: any;
+  }): Promise<{ status: number; body: any }> {
+    // A log context of its own (inheriting e.g. the request id), so the rule and
+    // run ids added during the execution never end up on the caller's entries
+    return withLogContext({}, () => this.execute(params));
+  }
+
+  private async execute(params: {
+    rawBody?: Buffer;
+    signature?: string;
+    messageId?: string;
     body?: any;
   }): Promise<{ status: number; body: any }> {
+    let trigger: RunTrigger | undefined;
     try {
-      const { rawBody, signature, body } = params;
+      const { rawBody, signature, messageId, body } = params;
 
       // Verify signature if provided
       if (signature) {
-        const ok = await qstashService.verifySignature(rawBody!, signature);
+        const ok = await scheduler.verifySignature(rawBody!, signature);
         if (!ok) {
           throw new Error("Invalid QStash signature");
         }
@@ -51,68 +656,272 @@ class RuleService {
           : body || {};
 
       const { ruleId } = payload;
+      trigger = RUN_TRIGGERS.includes(payload.trigger)
+        ? (payload.trigger as RunTrigger)
+        : "schedule";
+      addLogContext({ ruleId, trigger, ...(messageId ? { messageId } : {}) });
 
       // Get rule
-      const { data: rule, error } = await getRuleById(ruleId);
+      const { data: rule, error } = await db.rules.getRuleById(ruleId);
       if (error || !rule) {
         throw new Error(error || "Rule not found");
       }
 
-      // Define schema for structured rule execution response
-      const RuleExecutionSchema = {
-        type: "object",
-        properties: {
-          content: {
-            type: "string",
-            description: "The result or output of the task execution",
-          },
-          foundRelevantResults: {
-            type: "boolean",
-            description:
-              "Whether the task yielded important or meaningful results",
-          },
+      const lockToken = crypto.randomUUID();
+      const lockExpiresAt = Date.now() + RULE_LOCK_TTL_MS;
+      const { acquired, error: lockError } = await db.rules.acquireRuleLock(
+        ruleId,
+        lockToken,
+        RULE_LOCK_TTL_MS
+      );
+      if (lockError) {
+        throw new Error("Failed to acquire rule lock");
+      }
+      if (!acquired) {
+        logger.info("Rule execution skipped: already running");
+        ruleExecutions.inc({ outcome: "skipped", trigger });
+        if (trigger !== "schedule") {
+          return { status: 409, body: { error: "Rule is already running" } };
+        }
+        // A redelivery of the message being run right now: answer with a retryable
+        // status, so the message runs again if the attempt in progress fails
+        if (messageId) {
+          const { data: messageRuns } = await db.runs.getRunsByMessageId(
+            messageId
+          );
+          if (messageRuns?.some((run) => run.status === "running")) {
+            return {
+              status: 503,
+              body: { error: "This delivery is already being handled" },
+            };
+          }
+        }
+        // An overlapping tick is dropped. The run is recorded without the message id:
+        // a skipped run with one would count as handling the message.
+        await db.runs.createRun({
+          rule_id: ruleId,
+          user_id: rule.user_id,
+          trigger,
+          message_id: null,
+          status: "skipped",
+          error: "Previous run still in progress",
+        });
+        return { status: 200, body: { ok: true, skipped: "running" } };
+      }
+
+      try {
+        const result = await this.executeLocked(
+          ruleId,
+          trigger,
+          lockExpiresAt,
+          messageId
+        );
+        ruleExecutions.inc({ outcome: executionOutcome(result.body), trigger });
+        return result;
+      } finally {
+        await db.rules.releaseRuleLock(ruleId, lockToken);
+      }
+    } catch (e) {
+      logger.error("Error handling /rule/execute", { error: e });
+      ruleExecutions.inc({ outcome: "failed", trigger: trigger ?? "unknown" });
+      return {
+        status: 500,
+        body: {
+          error: e instanceof Error ? e.message : "Internal server error",
         },
-        required: ["content", "foundRelevantResults"],
-        additionalProperties: false,
       };
+    }
+  }
+
+  /**
+   * The part of handleExecute that runs under the rule's lock. The rule is read
+   * again so state written by the previous run (run count, status) is current.
+   */
+  private async executeLocked(
+    ruleId: string,
+    trigger: RunTrigger,
+    lockExpiresAt: number,
+    messageId?: string
+  ): Promise<{ status: number; body: any }> {
+    const { data: rule, error } = await db.rules.getRuleById(ruleId);
+    if (error || !rule) {
+      throw new Error(error || "Rule not found");
+    }
+
+    // QStash redelivers a message it thinks failed (timeouts, retries). Only runs
+    // that finished count as handled: we hold the lock, so a "running" run for this
+    // message is one whose process died, and the delivery is run again.
+    if (messageId) {
+      const { data: previousRuns } = await db.runs.getRunsByMessageId(
+        messageId
+      );
+      const handled = previousRuns?.find(
+        (run) => run.status === "succeeded" || run.status === "skipped"
+      );
+      if (handled) {
+        logger.info("Rule execution skipped: duplicate delivery", {
+          handledRunId: handled.id,
+        });
+        return {
+          status: 200,
+          body: { ok: true, duplicate: true, runId: handled.id },
+        };
+      }
+    }
+
+    // Paused rules never run, even if a stale QStash delivery arrives.
+    // Respond 200 so QStash does not retry the message.
+    if (rule.status === "paused") {
+      logger.info("Rule execution skipped: rule is paused");
+      await db.runs.createRun({
+        rule_id: ruleId,
+        user_id: rule.user_id,
+        trigger,
+        message_id: messageId ?? null,
+        status: "skipped",
+        error: "Rule is paused",
+      });
+      return { status: 200, body: { ok: true, skipped: "paused" } };
+    }
 
-      const prompt = buildRuleExecutionPrompt(rule.prompt, rule.history);
+    // Completed rules stay stopped; a rule that is already past one of its
+    // bounds (e.g. expired between runs) completes instead of running
+    const bound =
+      rule.status === "completed"
+        ? rule.completion_reason ?? null
+        : reachedBound(rule);
+    if (rule.status === "completed" || bound) {
+      logger.info("Rule execution skipped: rule is completed", {
+        reason: bound,
+      });
+      if (rule.status !== "completed" && bound) {
+        await this.completeBoundedRule(rule, bound);
+      }
+      await db.runs.createRun({
+        rule_id: ruleId,
+        user_id: rule.user_id,
+        trigger,
+        message_id: messageId ?? null,
+        status: "skipped",
+        error: `Rule is completed${bound ? ` (${bound})` : ""}`,
+      });
+      return { status: 200, body: { ok: true, skipped: "completed" } };
+    }
 
-      console.log("[rule execution prompt]", prompt);
+    // Over the monthly spend limit: skip until next month (or a raised limit)
+    const spendError = await usageService.checkSpend(
+      rule.user_id,
+      await usageService.getLimits(rule.user_id)
+    );
+    if (spendError) {
+      logger.info("Rule execution skipped: spend limit reached");
+      await db.runs.createRun({
+        rule_id: ruleId,
+        user_id: rule.user_id,
+        trigger,
+        message_id: messageId ?? null,
+        status: "skipped",
+        error: spendError,
+      });
+      return { status: 200, body: { ok: true, skipped: "quota" } };
+    }
 
-      // Execute rule with structured output
-      const executionResult = await openaiGenerate(prompt, RuleExecutionSchema);
+    const { data: run } = await db.runs.createRun({
+      rule_id: ruleId,
+      user_id: rule.user_id,
+      trigger,
+      message_id: messageId ?? null,
+    });
+    addLogContext({ runId: run?.id });
+    const stopTimer = ruleExecutionDuration.startTimer({ trigger });
 
-      console.log("[rule execution result]", {
+    try {
+      const { result: executionResult, responses } = await this.runRule(
+        rule,
+        lockExpiresAt
+      );
+      await usageService.record(responses, {
+        userId: rule.user_id,
         ruleId,
-        response: executionResult,
+        runId: run?.id,
+        purpose: "execution",
       });
+      const evaluated = await this.evaluateResult(rule, executionResult);
+      if (evaluated.observedItems.length) {
+        logger.info("Evaluated items", {
+          extracted: evaluated.observedItems.length,
+          alreadyReported: evaluated.seenCount,
+          reported: evaluated.reportedItems.length,
+        });
+      }
+
+      // Remember every extracted item (and its latest fields) before reporting any
+      await db.seenItems.recordObservedItems(
+        evaluated.observedItems.map((item) => ({
+          rule_id: ruleId,
+          fingerprint: item.fingerprint,
+          title: item.title,
+          url: item.url || null,
+          fields: item.fields,
+        }))
+      );
+
+      // Only store notification if there is something new to report
+      if (evaluated.notify) {
+        const { data: notification, error: notificationError } =
+          await notificationService.createNotification(rule.user_id, ruleId, {
+            result: evaluated.content,
+            items: evaluated.reportedItems.map(
+              ({ fingerprint, ...item }) => item
+            ),
+            ...(rule.item_schema ? { itemSchema: rule.item_schema } : {}),
+          });
+        // Fail the run before the items count as reported, so the retry notifies
+        if (notificationError || !notification) {
+          throw new Error("Failed to create notification");
+        }
+        notificationStream.publish(notification);
+        await deliveryService.deliver(notification);
 
-      // Only store notification if relevant results were found
-      if (executionResult.foundRelevantResults) {
-        await notificationService.createNotification(rule.user_id, ruleId, {
-          result: executionResult.content,
+        // Append the result content to the rule history
+        await db.rules.appendRuleHistory(ruleId, {
+          content: evaluated.content,
+          timestamp: new Date().toISOString(),
         });
 
-        // Update rule history with the result content
-        const currentHistory = rule.history || [];
-        const newEntry = {
+        await db.seenItems.markItemsReported(
+          ruleId,
+          evaluated.reportedItems.map((item) => item.fingerprint)
+        );
+      }
+
+      if (run?.id) {
+        // The last response is the one that produced the structured result
+        const primary = responses[responses.length - 1];
+        await db.runs.finishRun(run.id, {
+          status: "succeeded",
+          provider: primary?.provider,
+          model: primary?.model,
+          usage: sumUsage(responses),
+          found_relevant_results: executionResult.foundRelevantResults,
           content: executionResult.content,
-          timestamp: new Date().toISOString(),
-        };
-        const updatedHistory = [...currentHistory, newEntry];
-        await updateRuleHistory(ruleId, updatedHistory);
+          notified: evaluated.notify,
+        });
       }
 
-      return { status: 200, body: { ok: true } };
+      await this.recordExecution(rule, evaluated.notify);
+
+      stopTimer({ outcome: "succeeded" });
+      return { status: 200, body: { ok: true, runId: run?.id } };
     } catch (e) {
-      console.error("Error handling /rule/execute:", e);
-      return {
-        status: 500,
-        body: {
-          error: e instanceof Error ? e.message : "Internal server error",
-        },
-      };
+      stopTimer({ outcome: "failed" });
+      if (run?.id) {
+        await db.runs.finishRun(run.id, {
+          status: "failed",
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+      throw e;
     }
   }
 
@@ -125,57 +934,89 @@ class RuleService {
   }): Promise<{ status: number; body: any }> {
     try {
       const { body } = params;
-      const { userId, textPrompt } = body as {
+      const { userId, textPrompt, provider, model, ...boundsInput } = body as {
         userId: string;
         textPrompt: string;
-      };
+        provider?: string;
+        model?: string;
+      } & RuleBoundsInput;
 
-      // Default cadence
-      let cadence: "per_minute" | "hourly" | "daily" | "weekly" = "per_minute";
+      const bounds = parseBounds(boundsInput);
+      if ("error" in bounds) {
+        return { status: 400, body: { error: bounds.error } };
+      }
+
+      const modelSelection = resolveModelSelection(provider, model);
+      if ("error" in modelSelection) {
+        return { status: 400, body: { error: modelSelection.error } };
+      }
+
+      // Check the quotas that do not depend on the generated rule before paying for
+      // generation, then the generated schedule's cadence
+      const limits = await usageService.getLimits(userId);
+      const quotaError =
+        (await usageService.checkRuleQuota(userId, limits)) ||
+        (await usageService.checkSpend(userId, limits));
+      if (quotaError) {
+        return { status: 403, body: { error: quotaError } };
+      }
 
       // Use OpenAI to refine/build the final prompt from the user's idea
-      let finalPrompt = textPrompt;
-      try {
-        const generationInstruction = buildRuleGenerationPrompt(textPrompt);
-        const RuleGenSchema = {
-          type: "object",
-          properties: {
-            aiPrompt: { type: "string" },
-            frequency: {
-              type: "string",
-              enum: ["per_minute", "hourly", "daily", "weekly"],
-            },
-          },
-          required: ["aiPrompt", "frequency"],
-          additionalProperties: false,
-        };
-        const structured = await openaiGenerate(
-          generationInstruction,
-          RuleGenSchema
-        );
-        if (structured && structured.aiPrompt) {
-          finalPrompt = String(structured.aiPrompt).trim();
-        }
-        if (structured && structured.frequency) {
-          cadence = structured.frequency as typeof cadence;
-        }
-      } catch (err) {
-        console.warn(
-          "Prompt generation failed, falling back to user textPrompt:",
-          err
-        );
+      const generated = await this.generateRulePrompt(textPrompt);
+      await usageService.record(generated.responses, {
+        userId,
+        purpose: "generation",
+      });
+      const finalPrompt = generated.prompt;
+      const schedule: RuleSchedule = generated.schedule ?? DEFAULT_SCHEDULE;
+
+      const cadenceError = usageService.checkCadence(schedule.cron, limits);
+      if (cadenceError) {
+        return { status: 403, body: { error: cadenceError } };
       }
 
       const ruleId = crypto.randomUUID();
 
-      // Schedule execution via QStash
-      const schedule = await qstashService.scheduleExecution(ruleId, cadence);
-      console.log("successfully scheduled execution", schedule);
+      // Schedule execution via the configured scheduler
+      const created = await scheduler.scheduleExecution(
+        ruleId,
+        schedule.cron,
+        schedule.timezone
+      );
+      logger.info("Scheduled rule execution", {
+        ruleId,
+        scheduleId: created.scheduleId,
+      });
 
-      // Create rule with the final prompt
-      const { data, error } = await createRule(userId, finalPrompt, ruleId);
+      // Create rule with the final prompt and its schedule
+      const { data, error } = await db.rules.createRule(
+        userId,
+        finalPrompt,
+        ruleId,
+        {
+          cron: schedule.cron,
+          timezone: schedule.timezone,
+          provider: modelSelection.provider,
+          model: modelSelection.model,
+          execution_mode: generated.executionMode,
+          item_schema: generated.itemSchema,
+          conditions: generated.conditions,
+          stop_on_first_hit: generated.stopOnFirstHit,
+          // Explicit bounds win over the generated stop-on-first-hit
+          ...bounds.fields,
+        }
+      );
       if (error || !data?.id) {
-        console.error("Failed to create rule:", error);
+        logger.error("Failed to create rule", { error });
+        // Nothing refers to the schedule yet, so it would fire for a missing rule
+        const { success, error: scheduleError } =
+          await scheduler.deleteSchedule(created.scheduleId);
+        if (!success) {
+          logger.warn("Failed to delete schedule of unsaved rule", {
+            scheduleId: created.scheduleId,
+            error: scheduleError,
+          });
+        }
         return {
           status: 500,
           body: {
@@ -185,13 +1026,13 @@ class RuleService {
         };
       }
 
-      const scheduleId = (schedule as any)?.scheduleId ?? (schedule as any)?.id;
+      const scheduleId = created.scheduleId;
       if (scheduleId) {
-        await updateRuleCronId(ruleId, scheduleId);
+        await db.rules.updateRuleCronId(ruleId, scheduleId);
       }
 
-      qstashService.triggerImmediateExecution(ruleId).catch((err) => {
-        console.error("Failed to trigger immediate execution:", err);
+      scheduler.triggerImmediateExecution(ruleId).catch((err) => {
+        logger.error("Failed to trigger immediate execution", { error: err });
       });
 
       return {
@@ -201,43 +1042,500 @@ class RuleService {
           rule: {
             ...data,
             cron_id: scheduleId,
-            frequency: cadence,
+            frequency: describeCron(schedule.cron, schedule.timezone),
+            alerts: generated.conditions.map(describeCondition),
           },
           generatedPrompt: finalPrompt,
         },
       };
     } catch (error) {
-      console.error("Unexpected error in handleCreate:", error);
+      logger.error("Unexpected error in handleCreate", { error });
       return { status: 500, body: { error: "Internal server error" } };
     }
   }
 
-  /** Get all rules for a user with frequency enrichment */
+  /**
+   * Handle the POST /rule/preview behavior: generate the rule exactly as handleCreate
+   * would and execute it once, without saving the rule, recording a run, notifying
+   * or scheduling anything, so the user can confirm before creating it.
+   */
+  async handlePreview(params: {
+    body: any;
+  }): Promise<{ status: number; body: any }> {
+    try {
+      const { body } = params;
+      const { userId, textPrompt, provider, model } = body as {
+        userId: string;
+        textPrompt: string;
+        provider?: string;
+        model?: string;
+      };
+
+      const modelSelection = resolveModelSelection(provider, model);
+      if ("error" in modelSelection) {
+        return { status: 400, body: { error: modelSelection.error } };
+      }
+
+      const spendError = await usageService.checkSpend(
+        userId,
+        await usageService.getLimits(userId)
+      );
+      if (spendError) {
+        return { status: 403, body: { error: spendError } };
+      }
+
+      const generated = await this.generateRulePrompt(textPrompt);
+      await usageService.record(generated.responses, {
+        userId,
+        purpose: "preview",
+      });
+      const schedule: RuleSchedule = generated.schedule ?? DEFAULT_SCHEDULE;
+
+      // Never persisted: no id, so execution and evaluation skip every lookup by id
+      const draft: Rule = {
+        user_id: userId,
+        prompt: generated.prompt,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        provider: modelSelection.provider,
+        model: modelSelection.model,
+        execution_mode: generated.executionMode,
+        item_schema: generated.itemSchema,
+        conditions: generated.conditions,
+        stop_on_first_hit: generated.stopOnFirstHit,
+        history: [],
+      };
+
+      const { result, responses } = await this.runRule(draft);
+      await usageService.record(responses, {
+        userId,
+        purpose: "preview",
+      });
+      const evaluated = await this.evaluateResult(draft, result);
+
+      return {
+        status: 200,
+        body: {
+          rule: {
+            ...draft,
+            frequency: describeCron(schedule.cron, schedule.timezone),
+            alerts: generated.conditions.map(describeCondition),
+          },
+          generatedPrompt: generated.prompt,
+          sample: {
+            content: evaluated.content,
+            items: evaluated.observedItems.map(
+              ({ fingerprint, ...item }) => item
+            ),
+            foundRelevantResults: result.foundRelevantResults,
+            // Whether this result would have produced a notification
+            wouldNotify: evaluated.notify,
+            usage: sumUsage(responses),
+          },
+        },
+      };
+    } catch (error) {
+      logger.error("Unexpected error in handlePreview", { error });
+      return { status: 500, body: { error: "Internal server error" } };
+    }
+  }
+
+  /**
+   * Handle the PATCH /rule/:ruleId behavior: replace the prompt (optionally refining it
+   * through buildRuleGenerationPrompt) and/or swap the schedule for a new cron/timezone.
+   * The rule id, history and notifications are left untouched.
+   */
+  async handleUpdate(params: {
+    ruleId: string;
+    body: any;
+  }): Promise<{ status: number; body: any }> {
+    try {
+      const { ruleId, body } = params;
+      const {
+        prompt,
+        regeneratePrompt,
+        frequency,
+        cron,
+        timezone,
+        provider,
+        model,
+        executionMode,
+        itemSchema,
+        conditions,
+      } = body as {
+        prompt?: string;
+        regeneratePrompt?: boolean;
+        frequency?: string;
+        cron?: string;
+        timezone?: string;
+        provider?: string;
+        model?: string;
+        executionMode?: string;
+        itemSchema?: ItemSchema | null;
+        conditions?: AlertCondition[] | null;
+      } & RuleBoundsInput;
+
+      const bounds = parseBounds({
+        expiresAt: body.expiresAt,
+        maxRuns: body.maxRuns,
+        stopOnFirstHit: body.stopOnFirstHit,
+      });
+      if ("error" in bounds) {
+        return { status: 400, body: { error: bounds.error } };
+      }
+
+      if (itemSchema) {
+        const itemSchemaError = validateItemSchema(itemSchema);
+        if (itemSchemaError) {
+          return {
+            status: 400,
+            body: { error: `Invalid itemSchema: ${itemSchemaError}` },
+          };
+        }
+      }
+
+      if (executionMode && !EXECUTION_MODES.includes(executionMode as any)) {
+        return {
+          status: 400,
+          body: {
+            error: `Invalid executionMode: ${executionMode}. Use one of ${EXECUTION_MODES.join(
+              ", "
+            )}`,
+          },
+        };
+      }
+
+      if (frequency && !CADENCES.includes(frequency as Cadence)) {
+        return {
+          status: 400,
+          body: {
+            error: `Invalid frequency: ${frequency}. Use one of ${CADENCES.join(
+              ", "
+            )}`,
+          },
+        };
+      }
+
+      const { data: rule, error: fetchError } = await db.rules.getRuleById(
+        ruleId
+      );
+      if (fetchError || !rule) {
+        return { status: 404, body: { error: "Rule not found" } };
+      }
+
+      // A completed rule has no schedule left to change or bound
+      if (
+        rule.status === "completed" &&
+        (frequency || cron || timezone || Object.keys(bounds.fields).length)
+      ) {
+        return {
+          status: 409,
+          body: { error: "Rule is completed; its schedule cannot be changed" },
+        };
+      }
+
+      // Resolve the new schedule: a legacy frequency preset or an explicit cron,
+      // keeping whichever of cron/timezone the caller did not change
+      let schedule: RuleSchedule | null = null;
+      if (frequency || cron || timezone) {
+        const nextCron = frequency
+          ? cadenceToCron(frequency as Cadence)
+          : cron?.trim() || rule.cron;
+        if (!nextCron) {
+          return {
+            status: 400,
+            body: { error: "cron is required to change this rule's schedule" },
+          };
+        }
+        schedule = {
+          cron: nextCron,
+          timezone: timezone?.trim() || rule.timezone || DEFAULT_TIMEZONE,
+        };
+        const scheduleError = validateSchedule(schedule);
+        if (scheduleError) {
+          return { status: 400, body: { error: scheduleError } };
+        }
+        const cadenceError = usageService.checkCadence(
+          schedule.cron,
+          await usageService.getLimits(rule.user_id)
+        );
+        if (cadenceError) {
+          return { status: 403, body: { error: cadenceError } };
+        }
+      }
+
+      const updates: RuleUpdate = { ...bounds.fields };
+
+      // Switching provider resets the model to that provider's default unless one is given
+      if (provider || model) {
+        const modelSelection = resolveModelSelection(
+          provider || rule.provider,
+          model || (provider ? undefined : rule.model)
+        );
+        if ("error" in modelSelection) {
+          return { status: 400, body: { error: modelSelection.error } };
+        }
+        updates.provider = modelSelection.provider;
+        updates.model = modelSelection.model;
+      }
+
+      if (prompt) {
+        if (regeneratePrompt) {
+          const generated = await this.generateRulePrompt(prompt);
+          await usageService.record(generated.responses, {
+            userId: rule.user_id,
+            ruleId,
+            purpose: "generation",
+          });
+          updates.prompt = generated.prompt;
+          updates.execution_mode = generated.executionMode;
+          updates.item_schema = generated.itemSchema;
+          updates.conditions = generated.conditions;
+        } else {
+          updates.prompt = prompt.trim();
+        }
+      }
+
+      // An explicit mode wins over the one re-classified from the prompt
+      if (executionMode) {
+        updates.execution_mode = executionMode as ExecutionMode;
+      }
+
+      // Likewise for an explicit item schema; null switches back to free-form answers
+      if (itemSchema !== undefined) {
+        updates.item_schema = itemSchema;
+      }
+      if (conditions !== undefined) {
+        updates.conditions = conditions ?? [];
+      }
+
+      // Check the conditions the rule will have (new, regenerated or kept) against the
+      // item schema it will have, so a schema change cannot orphan a condition's field
+      const nextConditions =
+        "conditions" in updates ? updates.conditions : rule.conditions;
+      if (nextConditions?.length) {
+        const conditionsError = validateConditions(
+          nextConditions,
+          "item_schema" in updates
+            ? updates.item_schema ?? null
+            : rule.item_schema ?? null
+        );
+        if (conditionsError) {
+          return {
+            status: 400,
+            body: { error: `Invalid conditions: ${conditionsError}` },
+          };
+        }
+      }
+
+      // Swap the schedule: create the new one first so a failure leaves the old one running
+      let previousCronId: string | undefined;
+      if (schedule) {
+        // A paused rule stays paused across the swap
+        const created = await scheduler.scheduleExecution(
+          ruleId,
+          schedule.cron,
+          schedule.timezone,
+          { paused: rule.status === "paused" }
+        );
+        const scheduleId = created.scheduleId;
+        updates.cron = schedule.cron;
+        updates.timezone = schedule.timezone;
+        if (scheduleId) {
+          updates.cron_id = scheduleId;
+          previousCronId = rule.cron_id ?? undefined;
+        }
+      }
+
+      const { data, error } = await db.rules.updateRule(ruleId, updates);
+      if (error || !data) {
+        // The rule still points at its old schedule; drop the one made for it
+        if (updates.cron_id) {
+          const { success, error: scheduleError } =
+            await scheduler.deleteSchedule(updates.cron_id);
+          if (!success) {
+            logger.warn("Failed to delete new schedule", {
+              scheduleId: updates.cron_id,
+              error: scheduleError,
+            });
+          }
+        }
+        return {
+          status: 500,
+          body: {
+            error: "Failed to update rule",
+            details: (error as any)?.message || error,
+          },
+        };
+      }
+
+      if (previousCronId) {
+        const { success, error: scheduleError } =
+          await scheduler.deleteSchedule(previousCronId);
+        if (!success) {
+          logger.warn("Failed to delete previous schedule", {
+            error: scheduleError,
+          });
+        }
+      }
+
+      return {
+        status: 200,
+        body: {
+          message: "Rule updated successfully",
+          rule: {
+            ...data,
+            ...(schedule
+              ? { frequency: describeCron(schedule.cron, schedule.timezone) }
+              : {}),
+          },
+        },
+      };
+    } catch (error) {
+      logger.error("Unexpected error in handleUpdate", { error });
+      return { status: 500, body: { error: "Internal server error" } };
+    }
+  }
+
+  /**
+   * Pause or resume a rule: toggles the underlying schedule, then records the
+   * new status on the rule. Returns an object with HTTP status and JSON body.
+   */
+  async setRuleStatus(
+    ruleId: string,
+    status: RuleStatus
+  ): Promise<{ status: number; body: any }> {
+    try {
+      const { data: rule, error: fetchError } = await db.rules.getRuleById(
+        ruleId
+      );
+      if (fetchError || !rule) {
+        return { status: 404, body: { error: "Rule not found" } };
+      }
+
+      if (rule.status === "completed") {
+        return {
+          status: 409,
+          body: { error: "Rule is completed and can no longer run" },
+        };
+      }
+
+      if ((rule.status ?? "active") === status) {
+        return {
+          status: 200,
+          body: { message: `Rule already ${status}`, rule },
+        };
+      }
+
+      if (rule.cron_id) {
+        const { success, error } =
+          status === "paused"
+            ? await scheduler.pauseSchedule(rule.cron_id)
+            : await scheduler.resumeSchedule(rule.cron_id);
+        if (!success) {
+          return {
+            status: 502,
+            body: {
+              error: `Failed to ${
+                status === "paused" ? "pause" : "resume"
+              } schedule`,
+              details: error?.message || error,
+            },
+          };
+        }
+      }
+
+      const { data, error } = await db.rules.updateRuleStatus(ruleId, status);
+      if (error || !data) {
+        return {
+          status: 500,
+          body: {
+            error: "Failed to update rule status",
+            details: (error as any)?.message || error,
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        body: {
+          message: status === "paused" ? "Rule paused" : "Rule resumed",
+          rule: data,
+        },
+      };
+    } catch (error) {
+      logger.error("Unexpected error updating rule status", { error });
+      return { status: 500, body: { error: "Internal server error" } };
+    }
+  }
+
+  /**
+   * Get a page of execution runs, newest first, for one rule or across a user's rules
+   */
+  async getRuns(
+    filter: { ruleId: string } | { userId: string },
+    limit: number,
+    offset: number
+  ): Promise<{ data: RunPage | null; error: any }> {
+    return "ruleId" in filter
+      ? db.runs.getRunsByRuleId(filter.ruleId, limit, offset)
+      : db.runs.getRunsByUserId(filter.userId, limit, offset);
+  }
+
+  /**
+   * Get a rule only if it belongs to the given user; data is null otherwise
+   */
+  async getUserRule(
+    rule_id: string,
+    user_id: string
+  ): Promise<{ data: Rule | null; error: any }> {
+    const { data, error } = await db.rules.getRuleById(rule_id);
+    if (error || !data || data.user_id !== user_id) {
+      return { data: null, error };
+    }
+    return { data, error: null };
+  }
+
+  /** Get all rules for a user with frequency and status enrichment */
   async getAllUserRules(
     user_id: string
   ): Promise<{ data: Rule[] | null; error: any }> {
     try {
       // Get rules from database
-      const { data, error } = await getUserRules(user_id);
+      const { data, error } = await db.rules.getUserRules(user_id);
 
       if (error) {
         return { data: null, error };
       }
 
-      // Enrich rules with frequency information from QStash
+      // Enrich rules with frequency information from the scheduler
       if (data) {
         const enrichedData = await Promise.all(
           data.map(async (rule) => {
+            const status = rule.status ?? "active";
+            // Readable alert conditions, e.g. "price < 300"
+            const alerts = (rule.conditions ?? []).map(describeCondition);
+            // Rules carry their own cron; only older rules need a scheduler lookup
+            if (rule.cron) {
+              return {
+                ...rule,
+                status,
+                alerts,
+                frequency: describeCron(rule.cron, rule.timezone),
+              };
+            }
             if (rule.cron_id) {
-              const schedule = await qstashService.getSchedule(rule.cron_id);
+              const schedule = await scheduler.getSchedule(rule.cron_id);
               if (schedule?.cron) {
                 return {
                   ...rule,
-                  frequency: qstashService.cronToFrequency(schedule.cron),
+                  status,
+                  alerts,
+                  frequency: scheduler.cronToFrequency(schedule.cron),
                 };
               }
             }
-            return { ...rule, frequency: null };
+            return { ...rule, status, alerts, frequency: null };
           })
         );
         return { data: enrichedData, error: null };
@@ -245,37 +1543,39 @@ class RuleService {
 
       return { data, error: null };
     } catch (error) {
-      console.error("Unexpected error fetching user rules:", error);
+      logger.error("Unexpected error fetching user rules", { error });
       return { data: null, error };
     }
   }
 
-  /** Delete a rule by ID and its associated QStash schedule */
+  /** Delete a rule by ID and its associated schedule */
   async deleteUserRule(
     rule_id: string
   ): Promise<{ success: boolean; error: any }> {
     try {
       // First, fetch the rule to get the cron_id
-      const { data: rule, error: fetchError } = await getRuleById(rule_id);
+      const { data: rule, error: fetchError } = await db.rules.getRuleById(
+        rule_id
+      );
       if (fetchError) {
-        console.error("Error fetching rule for deletion:", fetchError);
+        logger.error("Error fetching rule for deletion", { error: fetchError });
         return { success: false, error: fetchError };
       }
 
-      // Delete the QStash schedule if it exists
+      // Delete the schedule if it exists
       if (rule?.cron_id) {
-        const { success: qstashSuccess, error: qstashError } =
-          await qstashService.deleteSchedule(rule.cron_id);
-        if (!qstashSuccess) {
-          console.warn("Failed to delete QStash schedule:", qstashError);
-          // Continue with database deletion even if QStash fails
+        const { success: scheduleDeleted, error: scheduleError } =
+          await scheduler.deleteSchedule(rule.cron_id);
+        if (!scheduleDeleted) {
+          logger.warn("Failed to delete schedule", { error: scheduleError });
+          // Continue with database deletion even if the scheduler fails
         }
       }
 
       // Delete from database
-      return await deleteRule(rule_id);
+      return await db.rules.deleteRule(rule_id);
     } catch (error) {
-      console.error("Unexpected error deleting rule:", error);
+      logger.error("Unexpected error deleting rule", { error });
       return { success: false, error };
     }
   }
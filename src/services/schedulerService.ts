@@ -0,0 +1,76 @@
+import { config } from "../config.js";
+import { LocalScheduler } from "./localSchedulerService.js";
+import { QStashService } from "./qstashService.js";
+
+export interface ScheduleDetails {
+  cron: string;
+  isPaused?: boolean;
+}
+
+/**
+ * Recurring maintenance work run by the scheduler alongside rules, evaluated in UTC.
+ * QStash posts a signed, empty request to path; the local scheduler calls run.
+ */
+export interface SchedulerJob {
+  // Stable name: scheduling a job again replaces its schedule
+  name: string;
+  cron: string;
+  path: string;
+  run(): Promise<unknown>;
+}
+
+/**
+ * A backend that runs rules on a cron schedule by delivering { ruleId } to
+ * ruleService.handleExecute, either over HTTP (QStash) or in-process (local).
+ */
+export interface Scheduler {
+  /**
+   * Create a recurring schedule for a rule. The cron expression is evaluated
+   * in the given IANA timezone. With paused set, the schedule is created paused.
+   */
+  scheduleExecution(
+    ruleId: string,
+    cronExpression: string,
+    timezone?: string,
+    options?: { paused?: boolean }
+  ): Promise<{ scheduleId: string }>;
+
+  /** Create or replace the recurring schedule of a maintenance job */
+  scheduleJob(job: SchedulerJob): Promise<{ scheduleId: string }>;
+
+  /** Get schedule details by schedule ID, or null if it cannot be found */
+  getSchedule(scheduleId: string): Promise<ScheduleDetails | null>;
+
+  deleteSchedule(scheduleId: string): Promise<{ success: boolean; error: any }>;
+
+  pauseSchedule(scheduleId: string): Promise<{ success: boolean; error: any }>;
+
+  resumeSchedule(scheduleId: string): Promise<{ success: boolean; error: any }>;
+
+  /** Trigger an immediate one-time execution of a rule (non-blocking) */
+  triggerImmediateExecution(ruleId: string): Promise<unknown>;
+
+  /** Verify that an execution request was sent by this scheduler */
+  verifySignature(rawBody: Buffer, signature?: string): Promise<boolean>;
+
+  /** Convert a cron returned by getSchedule to human-readable frequency */
+  cronToFrequency(cron: string): string;
+
+  /** Check that the backend is reachable with the configured credentials */
+  checkConnection(): Promise<{ success: boolean; error: any }>;
+}
+
+/**
+ * Build the scheduler selected by SCHEDULER_BACKEND ("qstash" by default).
+ * QStash credentials are only required when QStash is actually in use.
+ */
+function createScheduler(): Scheduler {
+  switch (config.schedulerBackend) {
+    case "qstash":
+      return new QStashService();
+    case "local":
+      return new LocalScheduler();
+  }
+}
+
+export const scheduler: Scheduler = createScheduler();
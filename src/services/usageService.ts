@@ -0,0 +1,217 @@
+import { config } from "../config.js";
+import { minCronIntervalMinutes } from "../cron.js";
+import { db } from "../db/repositories.js";
+import type { UsageEvent, UsagePurpose } from "../db/usage.js";
+import { estimateCost, type LLMResponse } from "./llmService.js";
+
+// Effective quotas for a user; null means unlimited
+export interface UsageLimits {
+  maxRules: number | null;
+  minIntervalMinutes: number | null;
+  monthlySpendUsd: number | null;
+}
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  periodStart: string;
+  periodEnd: string;
+  limits: UsageLimits;
+  activeRules: number;
+  totals: UsageTotals;
+  // Generation and preview calls are not tied to a saved rule (ruleId null)
+  byRule: Array<{ ruleId: string | null } & UsageTotals>;
+}
+
+// Deployment-wide defaults; a user's own limits on berry_users take precedence
+const DEFAULT_LIMITS: UsageLimits = config.usageDefaults;
+
+// Spend is metered per calendar month (UTC)
+function currentPeriod(): { start: Date; end: Date } {
+  const now = new Date();
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addEvent(totals: UsageTotals, event: UsageEvent) {
+  totals.calls += 1;
+  totals.inputTokens += event.input_tokens;
+  totals.outputTokens += event.output_tokens;
+  totals.totalTokens += event.total_tokens;
+  totals.costUsd += Number(event.cost_usd ?? 0);
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Records the token usage and estimated cost of every LLM call per user and rule
+ * (berry_usage_events) and enforces per-user quotas: how many rules a user may
+ * have, how often they may run, and how much they may spend per month.
+ */
+class UsageService {
+  /**
+   * Record the usage of LLM responses. Never throws: metering must not fail the
+   * request that made the calls.
+   */
+  async record(
+    responses: LLMResponse[],
+    context: {
+      userId: string;
+      ruleId?: string | null;
+      runId?: string | null;
+      purpose: UsagePurpose;
+    }
+  ) {
+    const events = responses
+      .filter((response) => response.usage)
+      .map((response) => {
+        const cost = estimateCost(response);
+        return {
+          user_id: context.userId,
+          rule_id: context.ruleId ?? null,
+          run_id: context.runId ?? null,
+          purpose: context.purpose,
+          provider: response.provider,
+          model: response.model,
+          input_tokens: response.usage!.inputTokens,
+          output_tokens: response.usage!.outputTokens,
+          total_tokens: response.usage!.totalTokens,
+          cost_usd: cost === null ? null : Number(cost.toFixed(6)),
+        };
+      });
+    await db.usage.recordUsageEvents(events);
+  }
+
+  /**
+   * The user's effective limits: their own overrides, else the defaults.
+   */
+  async getLimits(userId: string): Promise<UsageLimits> {
+    const { data } = await db.users.getUserLimitOverrides(userId);
+    return {
+      maxRules: data?.max_rules ?? DEFAULT_LIMITS.maxRules,
+      minIntervalMinutes:
+        data?.min_interval_minutes ?? DEFAULT_LIMITS.minIntervalMinutes,
+      monthlySpendUsd:
+        data?.monthly_spend_limit_usd !== null &&
+        data?.monthly_spend_limit_usd !== undefined
+          ? Number(data.monthly_spend_limit_usd)
+          : DEFAULT_LIMITS.monthlySpendUsd,
+    };
+  }
+
+  /**
+   * Estimated spend in USD of the user's LLM calls this month, summed by the
+   * storage backend so quota checks do not read every event.
+   */
+  async getMonthlySpend(
+    userId: string
+  ): Promise<{ data: number | null; error: any }> {
+    return db.usage.getSpendSince(userId, currentPeriod().start.toISOString());
+  }
+
+  /**
+   * Error message if the user already has as many rules as allowed, else null.
+   * Completed rules no longer run, so they do not count.
+   */
+  async checkRuleQuota(
+    userId: string,
+    limits: UsageLimits
+  ): Promise<string | null> {
+    if (limits.maxRules === null) return null;
+    const { data: rules } = await db.rules.getUserRules(userId);
+    const active = (rules ?? []).filter((rule) => rule.status !== "completed");
+    return active.length >= limits.maxRules
+      ? `Rule limit reached: your plan allows ${limits.maxRules} active rules`
+      : null;
+  }
+
+  /**
+   * Error message if the schedule would run more often than allowed, else null.
+   */
+  checkCadence(cron: string, limits: UsageLimits): string | null {
+    if (limits.minIntervalMinutes === null) return null;
+    const interval = minCronIntervalMinutes(cron);
+    return interval < limits.minIntervalMinutes
+      ? `Schedule too frequent: runs every ${interval} minutes but your plan allows at most one run every ${limits.minIntervalMinutes} minutes`
+      : null;
+  }
+
+  /**
+   * Error message if the user has used up this month's spend limit, else null.
+   * A failure to read usage does not block the user.
+   */
+  async checkSpend(
+    userId: string,
+    limits: UsageLimits
+  ): Promise<string | null> {
+    if (limits.monthlySpendUsd === null) return null;
+    const { data: spent } = await this.getMonthlySpend(userId);
+    return spent !== null && spent >= limits.monthlySpendUsd
+      ? `Monthly spend limit reached: ${formatUsd(spent)} of ${formatUsd(
+          limits.monthlySpendUsd
+        )} used`
+      : null;
+  }
+
+  /**
+   * The user's usage this month: totals, a per-rule breakdown and their limits.
+   */
+  async getUsageReport(
+    userId: string
+  ): Promise<{ data: UsageReport | null; error: any }> {
+    const { start, end } = currentPeriod();
+    const [{ data: events, error }, { data: rules }, limits] =
+      await Promise.all([
+        db.usage.getUsageEventsSince(userId, start.toISOString()),
+        db.rules.getUserRules(userId),
+        this.getLimits(userId),
+      ]);
+    if (error || !events) return { data: null, error };
+
+    const totals = emptyTotals();
+    const byRule = new Map<string | null, UsageTotals>();
+    for (const event of events) {
+      addEvent(totals, event);
+      const ruleId = event.rule_id ?? null;
+      if (!byRule.has(ruleId)) byRule.set(ruleId, emptyTotals());
+      addEvent(byRule.get(ruleId)!, event);
+    }
+
+    return {
+      data: {
+        periodStart: start.toISOString(),
+        periodEnd: end.toISOString(),
+        limits,
+        activeRules: (rules ?? []).filter((rule) => rule.status !== "completed")
+          .length,
+        totals,
+        byRule: [...byRule.entries()]
+          .map(([ruleId, ruleTotals]) => ({ ruleId, ...ruleTotals }))
+          .sort((a, b) => b.costUsd - a.costUsd),
+      },
+      error: null,
+    };
+  }
+}
+
+export const usageService = new UsageService();
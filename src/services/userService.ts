@@ -0,0 +1,123 @@
+import { db } from "../db/repositories.js";
+import type { LoginUser, UserPage } from "../db/user.js";
+import { logger } from "../logger.js";
+import { authService } from "./authService.js";
+import { scheduler } from "./schedulerService.js";
+
+export type PublicUser = Omit<LoginUser, "login_code_hash">;
+
+function toPublicUser({ login_code_hash, ...user }: LoginUser): PublicUser {
+  return user;
+}
+
+/**
+ * User administration for the admin API: creating users, issuing login codes and
+ * disabling accounts. Login codes are returned once, when issued; only their hash
+ * is stored.
+ */
+class UserService {
+  async createUser(name: string): Promise<{
+    data: { user: PublicUser; loginCode: string } | null;
+    error: any;
+  }> {
+    const { code, hash } = authService.generateLoginCode();
+    const { data, error } = await db.users.createUser(name, hash);
+    if (error || !data) return { data: null, error };
+    return { data: { user: toPublicUser(data), loginCode: code }, error: null };
+  }
+
+  /**
+   * Replace a user's login code; the old one stops working immediately. Sessions
+   * already signed in are kept. Null data with no error means no such user.
+   */
+  async rotateLoginCode(userId: string): Promise<{
+    data: { user: PublicUser; loginCode: string } | null;
+    error: any;
+  }> {
+    const { data: user, error } = await db.users.getUserById(userId);
+    if (error || !user) return { data: null, error };
+
+    const { code, hash } = authService.generateLoginCode();
+    const { success, error: updateError } = await db.users.setLoginCodeHash(
+      userId,
+      hash
+    );
+    if (!success) return { data: null, error: updateError };
+    return { data: { user: toPublicUser(user), loginCode: code }, error: null };
+  }
+
+  /**
+   * Disable a user: they are signed out everywhere, cannot sign in, and their
+   * active rules' schedules are paused. Enabling resumes those schedules. Rule
+   * statuses are left alone, so rules the user paused themselves stay paused.
+   * Null data with no error means no such user.
+   */
+  async setDisabled(
+    userId: string,
+    disabled: boolean
+  ): Promise<{
+    data: {
+      user: PublicUser;
+      schedulesUpdated: number;
+      failed: string[];
+    } | null;
+    error: any;
+  }> {
+    const { data: user, error } = await db.users.getUserById(userId);
+    if (error || !user) return { data: null, error };
+
+    const disabledAt = disabled ? new Date().toISOString() : null;
+    const { success, error: updateError } = await db.users.setUserDisabledAt(
+      userId,
+      disabledAt
+    );
+    if (!success) return { data: null, error: updateError };
+
+    if (disabled) {
+      const { success: revoked, error: revokeError } =
+        await db.sessions.revokeUserSessions(userId);
+      if (!revoked) return { data: null, error: revokeError };
+    }
+
+    const { data: rules, error: rulesError } = await db.rules.getUserRules(
+      userId
+    );
+    if (rulesError || !rules) return { data: null, error: rulesError };
+
+    let schedulesUpdated = 0;
+    const failed: string[] = [];
+    for (const rule of rules) {
+      if (rule.status !== "active" || !rule.cron_id) continue;
+      const { success: updated, error: scheduleError } = disabled
+        ? await scheduler.pauseSchedule(rule.cron_id)
+        : await scheduler.resumeSchedule(rule.cron_id);
+      if (updated) {
+        schedulesUpdated += 1;
+      } else {
+        logger.error(`Failed to ${disabled ? "pause" : "resume"} schedule`, {
+          ruleId: rule.id,
+          error: scheduleError,
+        });
+        failed.push(rule.id!);
+      }
+    }
+
+    return {
+      data: {
+        user: { ...toPublicUser(user), disabled_at: disabledAt },
+        schedulesUpdated,
+        failed,
+      },
+      error: null,
+    };
+  }
+
+  async listUsers(
+    limit: number,
+    offset: number
+  ): Promise<{ data: UserPage | null; error: any }> {
+    return db.users.getUsersPage(limit, offset);
+  }
+}
+
+export const userService = new UserService();
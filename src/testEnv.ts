@@ -0,0 +1,20 @@
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Environment for unit tests that load services: in-memory storage, the in-process
+ * scheduler and replayed LLM fixtures, so they need no network, database or keys.
+ * Import it before anything that reads config, which is read once at load.
+ */
+
+process.env.STORAGE_BACKEND = "memory";
+process.env.SCHEDULER_BACKEND = "local";
+process.env.LOCAL_SCHEDULER_FILE = path.join(
+  os.tmpdir(),
+  `berry-test-schedules-${process.pid}.json`
+);
+process.env.LLM_FIXTURES ??= "replay";
+process.env.LLM_FIXTURES_DIR ??= "fixtures";
+process.env.OPENAI_API_KEY ??= "fixture-replay";
+process.env.AUTH_TOKEN_SECRET ??= "test-token-secret";
+process.env.LOG_LEVEL ??= "error";
@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+import type { Rule, RuleUpdate } from "./db/rule.js";
+import { db } from "./db/repositories.js";
+import { registerProvider } from "./services/llmService.js";
+
+/**
+ * Rules for unit tests, run on a "test" LLM provider that answers each execution
+ * with the next queued answer instead of calling a model. Import testEnv.js first.
+ */
+
+// An execution result, an error to throw, or a call that produces either
+export type TestAnswer = object | Error | (() => Promise<object>);
+
+const answers: TestAnswer[] = [];
+
+registerProvider({
+  name: "test",
+  defaultModel: "test-model",
+  supportsStructuredOutput: true,
+  async complete(request) {
+    const answer = answers.shift();
+    if (!answer) throw new Error("No test answer queued");
+    if (answer instanceof Error) throw answer;
+    const output = typeof answer === "function" ? await answer() : answer;
+    return {
+      provider: "test",
+      model: request.model || "test-model",
+      text: JSON.stringify(output),
+      output,
+      usage: null,
+    };
+  },
+});
+
+/** Queue what the next executions answer, in order */
+export function queueAnswers(...queued: TestAnswer[]) {
+  answers.push(...queued);
+}
+
+/** An execution result listing the given items, as the model would return it */
+export function itemsResult(
+  items: Array<{ title: string; url?: string; fields?: object }>
+) {
+  return {
+    content: items.map((item) => `- ${item.title}`).join("\n"),
+    foundRelevantResults: items.length > 0,
+    items: items.map((item) => ({
+      url: "",
+      fields: [],
+      ...item,
+    })),
+  };
+}
+
+/** Save a rule for a new user that runs on the test provider */
+export async function createTestRule(fields: RuleUpdate = {}): Promise<Rule> {
+  const { data, error } = await db.rules.createRule(
+    randomUUID(),
+    "Let me know about new listings",
+    undefined,
+    {
+      cron: "0 8 * * *",
+      timezone: "UTC",
+      provider: "test",
+      model: "test-model",
+      ...fields,
+    }
+  );
+  if (error || !data) throw new Error("Failed to create test rule");
+  return data;
+}
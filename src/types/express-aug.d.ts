@@ -1,10 +1,14 @@
 // Type augmentation for Express to include rawBody set in express.json verify
+// and the user populated by requireAuth
 import type { Buffer } from "node:buffer";
+import type { AuthenticatedUser } from "../services/authService.js";
 
 declare global {
   namespace Express {
     interface Request {
       rawBody?: Buffer;
+      requestId?: string;
+      user?: AuthenticatedUser;
     }
   }
 }
@@ -0,0 +1,25 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { requireAuth } from "./authMiddleware.js";
+import { usageService } from "./services/usageService.js";
+
+const usageRouter = express.Router();
+
+usageRouter.use(requireAuth);
+
+// GET /usage - The authenticated user's LLM usage and estimated cost this month,
+// per rule, along with their limits
+usageRouter.get("/", async (req: Request, res: Response) => {
+  const { data, error } = await usageService.getUsageReport(req.user!.id);
+
+  if (error || !data) {
+    return res.status(500).json({
+      error: "Failed to fetch usage",
+      details: error?.message || error,
+    });
+  }
+
+  return res.status(200).json(data);
+});
+
+export { usageRouter };
@@ -0,0 +1,6 @@
+import { assertValidConfig } from "./config.js";
+
+// Imported first by index.ts: imports run before the importing module's body, so
+// a misconfigured server fails here with every problem listed, before any service
+// module reads its settings.
+assertValidConfig();
@@ -0,0 +1,4 @@
+-- Runs keep the model's raw answer in content/found_relevant_results; whether the
+-- run notified the user (after seen items and conditions) is recorded separately.
+alter table berry_rule_runs
+  add column if not exists notified boolean;
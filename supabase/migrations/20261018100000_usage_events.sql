@@ -0,0 +1,30 @@
+-- Token usage and estimated cost of each LLM call, for the monthly spend limit and
+-- the usage endpoint. Events outlive the rule and run they were made for.
+create table if not exists berry_usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references berry_users (id) on delete cascade,
+  rule_id uuid references berry_rules (id) on delete set null,
+  run_id uuid references berry_rule_runs (id) on delete set null,
+  purpose text not null check (purpose in ('execution', 'generation', 'preview')),
+  provider text not null,
+  model text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  -- null when the model has no known price
+  cost_usd numeric,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists berry_usage_events_user_id_created_at_idx
+  on berry_usage_events (user_id, created_at);
+
+-- Spend since a point in time, summed in the database (unpriced events count as 0)
+create or replace function berry_usage_spend_since(p_user_id uuid, p_since timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(cost_usd), 0) from berry_usage_events
+  where user_id = p_user_id and created_at >= p_since
+$$;